@@ -0,0 +1,228 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ConfigItem } from "@/hooks/use-config";
+import { useProfiles } from "@/hooks/use-profiles";
+import { type ParsedImport, parseImportFile, toImportRows } from "@/lib/import";
+import { formatRange, getRangeOptions } from "@/lib/ranges";
+import { useMemo, useState } from "react";
+
+export type ImportMode = "merge" | "replace";
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (items: ConfigItem[], mode: ImportMode) => void;
+}
+
+const formatLabels = { csv: "CSV", geojson: "GeoJSON", kml: "KML" };
+
+function ImportDialog({ open, onOpenChange, onImport }: ImportDialogProps) {
+  const profiles = useProfiles();
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [transport, setTransport] = useState<string>("");
+  const [range, setRange] = useState(15);
+
+  const defaultTransport = transport || profiles[0]?.id || "";
+  const rows = useMemo(
+    () =>
+      parsed
+        ? toImportRows(
+            parsed.records,
+            { transport: defaultTransport, range },
+            profiles.map((profile) => profile.id),
+          )
+        : [],
+    [parsed, defaultTransport, range, profiles],
+  );
+  const items = rows.flatMap((row) => (row.item ? [row.item] : []));
+  const invalid = rows.length - items.length;
+
+  async function handleFileChange(file: File | undefined) {
+    setParsed(null);
+    setFileError(null);
+    if (!file) return;
+
+    try {
+      setParsed(parseImportFile(file.name, await file.text()));
+    } catch (error) {
+      setFileError(
+        error instanceof Error ? error.message : "The file could not be read",
+      );
+    }
+  }
+
+  function handleOpenChange(open: boolean) {
+    onOpenChange(open);
+    if (!open) {
+      setParsed(null);
+      setFileError(null);
+    }
+  }
+
+  function handleImport(mode: ImportMode) {
+    onImport(items, mode);
+    handleOpenChange(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import markers</DialogTitle>
+          <DialogDescription>
+            CSV with latitude and longitude columns (and optionally name,
+            transport, range in minutes), GeoJSON points or KML placemarks.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.tsv,.txt,.geojson,.json,.kml"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+            />
+            {fileError && <p className="text-sm text-red-500">{fileError}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-transport">Default transport</Label>
+              <Select value={defaultTransport} onValueChange={setTransport}>
+                <SelectTrigger id="import-transport" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-range">Default range</Label>
+              <Select
+                value={String(range)}
+                onValueChange={(value) => setRange(Number(value))}
+              >
+                <SelectTrigger id="import-range" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {getRangeOptions("time").map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option} min
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {parsed && (
+            <div className="space-y-2">
+              <p className="text-sm">
+                {formatLabels[parsed.format]}: {items.length} ready
+                {invalid > 0 && (
+                  <span className="text-red-500">, {invalid} with errors</span>
+                )}
+                {parsed.skipped > 0 &&
+                  `, ${parsed.skipped} non-point features skipped`}
+              </p>
+              <div className="max-h-72 overflow-auto rounded-md border">
+                <table className="w-full text-left text-xs">
+                  <thead className="bg-muted sticky top-0">
+                    <tr>
+                      <th className="px-2 py-1">Row</th>
+                      <th className="px-2 py-1">Name</th>
+                      <th className="px-2 py-1">Location</th>
+                      <th className="px-2 py-1">Transport</th>
+                      <th className="px-2 py-1">Ranges</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => (
+                      <tr key={row.row} className="border-t align-top">
+                        <td className="px-2 py-1">{row.row}</td>
+                        <td className="px-2 py-1">{row.name}</td>
+                        {row.item ? (
+                          <>
+                            <td className="px-2 py-1">
+                              {row.item.location[1].toFixed(5)},{" "}
+                              {row.item.location[0].toFixed(5)}
+                            </td>
+                            <td className="px-2 py-1">
+                              {profiles.find(
+                                (profile) => profile.id === row.item?.transport,
+                              )?.label ?? row.item.transport}
+                            </td>
+                            <td className="px-2 py-1">
+                              {row.item.ranges
+                                .map((value) =>
+                                  formatRange(
+                                    value,
+                                    row.item!.rangeType,
+                                    row.item!.units,
+                                  ),
+                                )
+                                .join(", ")}
+                            </td>
+                          </>
+                        ) : (
+                          <td colSpan={3} className="px-2 py-1 text-red-500">
+                            {row.errors.join("; ")}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={items.length === 0}
+            onClick={() => handleImport("replace")}
+          >
+            Replace markers
+          </Button>
+          <Button
+            type="button"
+            disabled={items.length === 0}
+            onClick={() => handleImport("merge")}
+          >
+            Add {items.length} markers
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ImportDialog;
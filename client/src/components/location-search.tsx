@@ -0,0 +1,111 @@
+import { Input } from "@/components/ui/input";
+import { GEOCODE_MIN_LENGTH, useGeocodeSearch } from "@/hooks/use-geocode";
+import { cn } from "@/lib/utils";
+import type { GeocodeResult } from "@server/schemas/geocode";
+import { LoaderCircle, MapPin, Search } from "lucide-react";
+import { useState } from "react";
+
+interface LocationSearchProps {
+  onSelect: (result: GeocodeResult) => void;
+  className?: string;
+}
+
+// Address search with suggestions as you type; also takes "lat, lon"
+function LocationSearch({ onSelect, className }: LocationSearchProps) {
+  const [text, setText] = useState("");
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+  const { results, attribution, error, pending } = useGeocodeSearch(text);
+
+  const showList = open && text.trim().length >= GEOCODE_MIN_LENGTH;
+
+  function select(result: GeocodeResult) {
+    onSelect(result);
+    setText("");
+    setOpen(false);
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      setOpen(true);
+      if (results.length > 0) {
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActive((active + step + results.length) % results.length);
+      }
+    } else if (e.key === "Enter") {
+      const result = results[active];
+      if (result) select(result);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  }
+
+  return (
+    <div className={cn("relative", className)}>
+      <Search className="text-muted-foreground pointer-events-none absolute top-1/2 left-2.5 size-4 -translate-y-1/2" />
+      <Input
+        type="search"
+        role="combobox"
+        aria-label="Search for a place"
+        aria-expanded={showList}
+        aria-controls="location-search-results"
+        aria-autocomplete="list"
+        placeholder="Search for a place…"
+        className="bg-white pl-8 shadow"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setActive(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+      {pending && (
+        <LoaderCircle className="text-muted-foreground absolute top-1/2 right-2.5 size-4 -translate-y-1/2 animate-spin" />
+      )}
+
+      {showList && (
+        <div className="absolute inset-x-0 top-full mt-1 overflow-hidden rounded-md border bg-white text-sm shadow-md">
+          {error ? (
+            <p className="px-3 py-2 text-red-600">{error.message}</p>
+          ) : results.length === 0 ? (
+            <p className="text-muted-foreground px-3 py-2">
+              {pending ? "Searching…" : "No places found"}
+            </p>
+          ) : (
+            <ul id="location-search-results" role="listbox">
+              {results.map((result, index) => (
+                <li
+                  key={`${result.label}-${result.location.join(",")}`}
+                  role="option"
+                  aria-selected={index === active}
+                  className={cn(
+                    "flex cursor-pointer items-start gap-2 px-3 py-2",
+                    index === active && "bg-neutral-100",
+                  )}
+                  onMouseEnter={() => setActive(index)}
+                  // Keep focus in the input so its blur doesn't close the list
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => select(result)}
+                >
+                  <MapPin className="text-muted-foreground mt-0.5 size-4 shrink-0" />
+                  {result.label}
+                </li>
+              ))}
+            </ul>
+          )}
+          {attribution && (
+            <p className="text-muted-foreground border-t px-3 py-1 text-[10px]">
+              {attribution}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LocationSearch;
@@ -0,0 +1,119 @@
+import {
+  Menubar,
+  MenubarCheckboxItem,
+  MenubarContent,
+  MenubarItem,
+  MenubarMenu,
+  MenubarSeparator,
+  MenubarTrigger,
+} from "@/components/ui/menubar";
+import type { ConfigItem } from "@/hooks/use-config";
+import type { MapGeoJson } from "@/hooks/use-map";
+import {
+  buildExportCollection,
+  downloadFile,
+  encodeExport,
+  type ExportFormat,
+  getExportUrl,
+} from "@/lib/export";
+
+const formatOptions: { value: ExportFormat; label: string }[] = [
+  { value: "geojson", label: "GeoJSON" },
+  { value: "kml", label: "KML" },
+  { value: "gpx", label: "GPX" },
+  { value: "shapefile", label: "Shapefile (.zip)" },
+];
+
+interface MapMenuProps {
+  config: ConfigItem[];
+  // The encoded config search param, for the API link
+  encodedConfig?: string;
+  layers: MapGeoJson[];
+  onImport: () => void;
+  onScenarios: () => void;
+  onCopyLink: (url: string) => void;
+  preview: boolean;
+  onPreviewChange: (preview: boolean) => void;
+  viewInLink: boolean;
+  onViewInLinkChange: (viewInLink: boolean) => void;
+  className?: string;
+}
+
+function MapMenu({
+  config,
+  encodedConfig,
+  layers,
+  onImport,
+  onScenarios,
+  onCopyLink,
+  preview,
+  onPreviewChange,
+  viewInLink,
+  onViewInLinkChange,
+  className,
+}: MapMenuProps) {
+  const disabled = config.length === 0;
+
+  function handleExport(format: ExportFormat) {
+    downloadFile(encodeExport(buildExportCollection(config, layers), format));
+  }
+
+  function handleCopyLink() {
+    if (encodedConfig) {
+      onCopyLink(getExportUrl(encodedConfig, "geojson"));
+    }
+  }
+
+  return (
+    <Menubar className={className}>
+      <MenubarMenu>
+        <MenubarTrigger>Scenarios</MenubarTrigger>
+        <MenubarContent>
+          <MenubarItem onSelect={onScenarios}>Save and share…</MenubarItem>
+        </MenubarContent>
+      </MenubarMenu>
+      <MenubarMenu>
+        <MenubarTrigger>Import</MenubarTrigger>
+        <MenubarContent>
+          <MenubarItem onSelect={onImport}>From file…</MenubarItem>
+        </MenubarContent>
+      </MenubarMenu>
+      <MenubarMenu>
+        <MenubarTrigger disabled={disabled}>Export</MenubarTrigger>
+        <MenubarContent>
+          {formatOptions.map((option) => (
+            <MenubarItem
+              key={option.value}
+              onSelect={() => handleExport(option.value)}
+            >
+              {option.label}
+            </MenubarItem>
+          ))}
+          <MenubarSeparator />
+          <MenubarItem disabled={!encodedConfig} onSelect={handleCopyLink}>
+            Copy API link
+          </MenubarItem>
+        </MenubarContent>
+      </MenubarMenu>
+      <MenubarMenu>
+        <MenubarTrigger>View</MenubarTrigger>
+        <MenubarContent>
+          <MenubarCheckboxItem
+            checked={preview}
+            onCheckedChange={onPreviewChange}
+          >
+            Live preview while dragging
+          </MenubarCheckboxItem>
+          <MenubarCheckboxItem
+            checked={viewInLink}
+            onCheckedChange={onViewInLinkChange}
+          >
+            Keep map position in link
+          </MenubarCheckboxItem>
+        </MenubarContent>
+      </MenubarMenu>
+    </Menubar>
+  );
+}
+
+export default MapMenu;
@@ -0,0 +1,305 @@
+import { Button } from "@/components/ui/button";
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+} from "@/components/ui/drawer";
+import { type ConfigItem, getMarkerName } from "@/hooks/use-config";
+import { getMarkerColor, type MarkerStatus } from "@/hooks/use-map";
+import { useProfileColors, useProfiles } from "@/hooks/use-profiles";
+import { formatRange } from "@/lib/ranges";
+import { cn } from "@/lib/utils";
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  CopyIcon,
+  EyeIcon,
+  EyeOffIcon,
+  LoaderCircle,
+  LocateFixedIcon,
+  PencilIcon,
+  Trash2Icon,
+  XIcon,
+} from "lucide-react";
+import type { ReactNode } from "react";
+
+interface MarkerActions {
+  onEdit: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onToggleHidden: (id: string) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+  onZoomTo: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+interface MarkerListProps extends MarkerActions {
+  config: ConfigItem[];
+  statuses: Record<string, MarkerStatus>;
+  // A column beside the map on wide screens, a bottom drawer otherwise
+  layout: "sidebar" | "drawer";
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  className?: string;
+}
+
+function StatusLine({ status }: { status?: MarkerStatus }) {
+  switch (status?.state) {
+    case "hidden":
+      return <p className="text-muted-foreground">Hidden from the map</p>;
+    case "error":
+      return (
+        <p className="flex items-center gap-2 text-red-600">
+          <span className="min-w-0 truncate" title={status.error.message}>
+            {status.error.message}
+          </span>
+          {status.error.retryable && (
+            <button
+              type="button"
+              className="shrink-0 rounded border px-1.5 text-xs font-medium text-neutral-900 hover:bg-neutral-100 disabled:opacity-50"
+              disabled={status.error.retrying}
+              onClick={status.error.onRetry}
+            >
+              {status.error.retrying ? "Retrying…" : "Retry"}
+            </button>
+          )}
+        </p>
+      );
+    case "ready":
+      return (
+        <p className="text-muted-foreground">
+          {status.bands} {status.bands === 1 ? "isochrone" : "isochrones"}
+        </p>
+      );
+    default:
+      return (
+        <p className="text-muted-foreground flex items-center gap-1">
+          <LoaderCircle className="size-3 animate-spin" />
+          Loading isochrones…
+        </p>
+      );
+  }
+}
+
+function IconButton({
+  label,
+  className,
+  disabled,
+  onClick,
+  children,
+}: {
+  label: string;
+  className?: string;
+  disabled?: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <Button
+      type="button"
+      size="icon"
+      variant="ghost"
+      className={cn("size-7", className)}
+      aria-label={label}
+      title={label}
+      disabled={disabled}
+      onClick={onClick}
+    >
+      {children}
+    </Button>
+  );
+}
+
+function MarkerRow({
+  item,
+  index,
+  count,
+  status,
+  actions,
+}: {
+  item: ConfigItem;
+  index: number;
+  count: number;
+  status?: MarkerStatus;
+  actions: MarkerActions;
+}) {
+  const profiles = useProfiles();
+  const colors = useProfileColors();
+  const name = getMarkerName(item, index);
+  const transport =
+    profiles.find((profile) => profile.id === item.transport)?.label ??
+    item.transport;
+
+  return (
+    <li className={cn("space-y-1 py-2", item.hidden && "opacity-60")}>
+      <div className="flex items-center gap-2">
+        <span
+          className="size-3 shrink-0 rounded-full"
+          style={{ backgroundColor: getMarkerColor(item, colors) }}
+        />
+        <button
+          type="button"
+          className="min-w-0 flex-1 truncate text-left font-medium"
+          title={`Edit ${name}`}
+          onClick={() => actions.onEdit(item.id)}
+        >
+          {name}
+        </button>
+      </div>
+      <div className="text-muted-foreground pl-5">
+        {transport} ·{" "}
+        {item.ranges
+          .map((value) => formatRange(value, item.rangeType, item.units))
+          .join(", ")}
+      </div>
+      <div className="pl-5">
+        <StatusLine status={status} />
+      </div>
+      <div className="flex flex-wrap pl-3">
+        <IconButton
+          label="Move up"
+          disabled={index === 0}
+          onClick={() => actions.onMove(item.id, -1)}
+        >
+          <ArrowUpIcon />
+        </IconButton>
+        <IconButton
+          label="Move down"
+          disabled={index === count - 1}
+          onClick={() => actions.onMove(item.id, 1)}
+        >
+          <ArrowDownIcon />
+        </IconButton>
+        <IconButton
+          label={item.hidden ? "Show" : "Hide"}
+          onClick={() => actions.onToggleHidden(item.id)}
+        >
+          {item.hidden ? <EyeIcon /> : <EyeOffIcon />}
+        </IconButton>
+        <IconButton label="Zoom to" onClick={() => actions.onZoomTo(item.id)}>
+          <LocateFixedIcon />
+        </IconButton>
+        <IconButton label="Edit" onClick={() => actions.onEdit(item.id)}>
+          <PencilIcon />
+        </IconButton>
+        <IconButton
+          label="Duplicate"
+          onClick={() => actions.onDuplicate(item.id)}
+        >
+          <CopyIcon />
+        </IconButton>
+        <IconButton
+          label="Delete"
+          className="text-destructive"
+          onClick={() => actions.onDelete(item.id)}
+        >
+          <Trash2Icon />
+        </IconButton>
+      </div>
+    </li>
+  );
+}
+
+function MarkerItems({
+  config,
+  statuses,
+  actions,
+}: {
+  config: ConfigItem[];
+  statuses: Record<string, MarkerStatus>;
+  actions: MarkerActions;
+}) {
+  if (config.length === 0) {
+    return (
+      <p className="text-muted-foreground">
+        No markers yet. Click the map or search for a place to add one.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y">
+      {config.map((item, index) => (
+        <MarkerRow
+          key={item.id}
+          item={item}
+          index={index}
+          count={config.length}
+          status={statuses[item.id]}
+          actions={actions}
+        />
+      ))}
+    </ul>
+  );
+}
+
+// Every marker on the map, in order, with what its isochrones are doing
+function MarkerList({
+  config,
+  statuses,
+  layout,
+  open,
+  onOpenChange,
+  className,
+  ...actions
+}: MarkerListProps) {
+  if (layout === "sidebar") {
+    if (!open) return null;
+    return (
+      <aside
+        aria-label="Markers"
+        className={cn(
+          "flex w-80 shrink-0 flex-col border-r bg-white text-sm",
+          className,
+        )}
+      >
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <h2 className="font-medium">Markers ({config.length})</h2>
+          <IconButton label="Close" onClick={() => onOpenChange(false)}>
+            <XIcon />
+          </IconButton>
+        </div>
+        <div className="flex-1 overflow-y-auto px-3">
+          <MarkerItems config={config} statuses={statuses} actions={actions} />
+        </div>
+      </aside>
+    );
+  }
+
+  // The drawer covers the map, so get out of the way of the dialog and of
+  // where the map is flying to
+  const drawerActions: MarkerActions = {
+    ...actions,
+    onEdit: (id) => {
+      onOpenChange(false);
+      actions.onEdit(id);
+    },
+    onZoomTo: (id) => {
+      onOpenChange(false);
+      actions.onZoomTo(id);
+    },
+  };
+
+  return (
+    <Drawer open={open} onOpenChange={onOpenChange}>
+      <DrawerContent className={className}>
+        <DrawerHeader>
+          <DrawerTitle>Markers ({config.length})</DrawerTitle>
+          <DrawerDescription>
+            Edit, reorder or hide the markers on the map.
+          </DrawerDescription>
+        </DrawerHeader>
+        <div className="overflow-y-auto px-4 pb-4 text-sm">
+          <MarkerItems
+            config={config}
+            statuses={statuses}
+            actions={drawerActions}
+          />
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
+
+export default MarkerList;
@@ -0,0 +1,222 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { type ConfigItem, getMarkerName } from "@/hooks/use-config";
+import {
+  getCoverageColor,
+  type MapOverlay,
+  type OverlayMode,
+} from "@/hooks/use-map";
+import { useProfiles } from "@/hooks/use-profiles";
+import { cn } from "@/lib/utils";
+
+const modeOptions: { value: OverlayMode; label: string }[] = [
+  { value: "pairwise", label: "Pairwise" },
+  { value: "common", label: "Common" },
+  { value: "union", label: "Union" },
+  { value: "difference", label: "Difference" },
+  { value: "coverage", label: "Coverage" },
+];
+
+const areaLabels: Record<OverlayMode, string> = {
+  pairwise: "Overlap",
+  common: "Common area",
+  union: "Total coverage",
+  difference: "Only reached by the first",
+  coverage: "Coverage",
+};
+
+interface OverlayPanelProps {
+  config: ConfigItem[];
+  overlay: MapOverlay;
+  selection?: string[];
+  onModeChange: (mode: OverlayMode) => void;
+  onSelectionChange: (selection: string[] | undefined) => void;
+  onDifferenceChange: (difference: { from: string; minus: string }) => void;
+  className?: string;
+}
+
+function AreaSummary({ overlay }: { overlay: MapOverlay }) {
+  const area = overlay.area;
+  if (!area) return null;
+
+  switch (area.status) {
+    case "pending":
+      return <p className="text-muted-foreground">Calculating…</p>;
+    case "insufficient":
+      return (
+        <p className="text-muted-foreground">
+          Select at least two markers with isochrones
+        </p>
+      );
+    case "empty":
+      return (
+        <p className="text-red-600">
+          {overlay.mode === "difference"
+            ? "Nothing outside the second marker's isochrone"
+            : `No common area between ${area.count} isochrones`}
+        </p>
+      );
+    case "found": {
+      const [lon, lat] = area.centroid ?? [0, 0];
+      return (
+        <p>
+          {areaLabels[overlay.mode]}: {area.area?.toFixed(2)} km²
+          <br />
+          Centroid: {lat.toFixed(5)}, {lon.toFixed(5)}
+        </p>
+      );
+    }
+  }
+}
+
+function CoverageSummary({ overlay }: { overlay: MapOverlay }) {
+  if (!overlay.coverage) return null;
+  if (overlay.pending && overlay.coverage.length === 0) {
+    return <p className="text-muted-foreground">Calculating…</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {overlay.coverage.map((level) => (
+        <li key={level.count} className="flex items-center gap-2">
+          <span
+            className="inline-block size-3 rounded-sm"
+            style={{ backgroundColor: getCoverageColor(level.count) }}
+          />
+          {level.count === 1 ? "1+ marker" : `${level.count}+ markers`}:{" "}
+          {level.area.toFixed(2)} km²
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Chooses how overlapping isochrones are combined on the map
+function OverlayPanel({
+  config,
+  overlay,
+  selection,
+  onModeChange,
+  onSelectionChange,
+  onDifferenceChange,
+  className,
+}: OverlayPanelProps) {
+  const profiles = useProfiles();
+  const visible = config.filter((item) => !item.hidden);
+  if (visible.length < 2) return null;
+
+  const selected = selection ?? visible.map((item) => item.id);
+  // Numbered by their place in the whole list, as in the marker list
+  const markerLabels = Object.fromEntries(
+    config.map((item, index) => [
+      item.id,
+      `${getMarkerName(item, index)} · ${
+        profiles.find((profile) => profile.id === item.transport)?.label ??
+        item.transport
+      }`,
+    ]),
+  );
+
+  function handleToggle(id: string) {
+    const next = selected.includes(id)
+      ? selected.filter((value) => value !== id)
+      : [...selected, id];
+    // Keep the URL short while every marker is included
+    onSelectionChange(next.length === visible.length ? undefined : next);
+  }
+
+  const difference = overlay.difference;
+
+  return (
+    <div
+      className={cn(
+        "w-72 space-y-2 rounded-md bg-white/90 p-3 text-xs shadow",
+        className,
+      )}
+    >
+      <div className="flex flex-wrap gap-1">
+        {modeOptions.map((option) => (
+          <Button
+            key={option.value}
+            type="button"
+            size="sm"
+            variant={overlay.mode === option.value ? "default" : "outline"}
+            onClick={() => onModeChange(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {overlay.mode === "common" && (
+        <ul className="space-y-1">
+          {visible.map((item) => (
+            <li key={item.id}>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(item.id)}
+                  onChange={() => handleToggle(item.id)}
+                />
+                {markerLabels[item.id]}
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {difference && (
+        <div className="grid grid-cols-[auto_1fr] items-center gap-2">
+          {(["from", "minus"] as const).map((key) => (
+            <div key={key} className="contents">
+              <Label htmlFor={`difference-${key}`} className="text-xs">
+                {key === "from" ? "Reached by" : "Not by"}
+              </Label>
+              <Select
+                value={difference[key]}
+                onValueChange={(value) =>
+                  onDifferenceChange({
+                    from: difference.from ?? "",
+                    minus: difference.minus ?? "",
+                    [key]: value,
+                  })
+                }
+              >
+                <SelectTrigger
+                  id={`difference-${key}`}
+                  size="sm"
+                  className="w-full"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {visible.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {markerLabels[item.id]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {overlay.error ? (
+        <p className="text-red-600">{overlay.error}</p>
+      ) : (
+        <AreaSummary overlay={overlay} />
+      )}
+      <CoverageSummary overlay={overlay} />
+    </div>
+  );
+}
+
+export default OverlayPanel;
@@ -0,0 +1,38 @@
+import { quotaQueryOptions } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { useQuery } from "@tanstack/react-query";
+
+const windowLabels = {
+  minute: "min",
+  day: "day",
+};
+
+// Remaining routing budget, polled from /api/quota
+function QuotaBadge({ className }: { className?: string }) {
+  const { data } = useQuery(quotaQueryOptions);
+  if (!data || data.upstream.windows.length === 0) return null;
+
+  const low = data.upstream.windows.some(
+    (window) => window.remaining <= window.limit * 0.1,
+  );
+
+  return (
+    <div
+      className={cn(
+        "rounded-md bg-white/90 px-3 py-1.5 text-xs shadow",
+        low && "text-red-600",
+        className,
+      )}
+      title={`Requests left for ${data.upstream.provider}`}
+    >
+      {data.upstream.windows
+        .map(
+          (window) =>
+            `${window.remaining}/${window.limit} per ${windowLabels[window.window]}`,
+        )
+        .join(" · ")}
+    </div>
+  );
+}
+
+export default QuotaBadge;
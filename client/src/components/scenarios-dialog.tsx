@@ -0,0 +1,285 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { parseConfig } from "@/hooks/use-config";
+import {
+  getScenarioUrl,
+  type SavedScenario,
+  useSavedScenarios,
+} from "@/hooks/use-scenarios";
+import type { Scenario } from "@server/scenarios";
+import { SCENARIO_NAME_MAX_LENGTH } from "@server/schemas/scenarios";
+import { CopyIcon, LinkIcon, PencilIcon, Trash2Icon } from "lucide-react";
+import { useState } from "react";
+
+interface ScenariosDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The map's encoded config, and the saved scenario it came from
+  encodedConfig?: string;
+  currentId?: string;
+  onOpenScenario: (scenario: Scenario) => void;
+  onCopyLink: (url: string) => void;
+}
+
+const dateFormat = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+function ScenarioRow({
+  saved,
+  current,
+  onOpen,
+  onCopyLink,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: {
+  saved: SavedScenario;
+  current: boolean;
+  onOpen: (scenario: Scenario) => void;
+  onCopyLink: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}) {
+  const [name, setName] = useState<string | null>(null);
+  const { scenario } = saved;
+
+  if (!scenario) {
+    return (
+      <li className="flex items-center justify-between gap-2 py-2">
+        <span className="text-muted-foreground">
+          {saved.pending
+            ? "Loading…"
+            : saved.missing
+              ? `Scenario ${saved.id} no longer exists`
+              : `Scenario ${saved.id} could not be loaded`}
+        </span>
+        {!saved.pending && (
+          <Button type="button" size="sm" variant="ghost" onClick={onDelete}>
+            Remove
+          </Button>
+        )}
+      </li>
+    );
+  }
+
+  const markers = parseConfig(scenario.config).config.length;
+
+  return (
+    <li className="flex items-center gap-2 py-2">
+      {name === null ? (
+        <button
+          type="button"
+          className="min-w-0 flex-1 text-left"
+          onClick={() => onOpen(scenario)}
+        >
+          <p className="truncate font-medium">
+            {scenario.name}
+            {current && (
+              <span className="text-muted-foreground font-normal"> (open)</span>
+            )}
+          </p>
+          <p className="text-muted-foreground text-xs">
+            {markers} {markers === 1 ? "marker" : "markers"} · updated{" "}
+            {dateFormat.format(scenario.updatedAt)}
+          </p>
+        </button>
+      ) : (
+        <form
+          className="flex flex-1 gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (name.trim()) onRename(name.trim());
+            setName(null);
+          }}
+        >
+          <Input
+            autoFocus
+            aria-label="Scenario name"
+            maxLength={SCENARIO_NAME_MAX_LENGTH}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") {
+                e.stopPropagation();
+                setName(null);
+              }
+            }}
+          />
+          <Button type="submit" size="sm">
+            Rename
+          </Button>
+        </form>
+      )}
+      {name === null && (
+        <div className="flex shrink-0">
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            aria-label="Copy link"
+            title="Copy link"
+            onClick={onCopyLink}
+          >
+            <LinkIcon />
+          </Button>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            aria-label="Rename"
+            title="Rename"
+            onClick={() => setName(scenario.name)}
+          >
+            <PencilIcon />
+          </Button>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            aria-label="Duplicate"
+            title="Duplicate"
+            onClick={onDuplicate}
+          >
+            <CopyIcon />
+          </Button>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            aria-label="Delete"
+            title="Delete"
+            className="text-destructive"
+            onClick={onDelete}
+          >
+            <Trash2Icon />
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+// Saves the map under a short link and lists the scenarios saved from
+// this browser
+function ScenariosDialog({
+  open,
+  onOpenChange,
+  encodedConfig,
+  currentId,
+  onOpenScenario,
+  onCopyLink,
+}: ScenariosDialogProps) {
+  const { scenarios, isOwned, save, update, duplicate, remove } =
+    useSavedScenarios();
+  const [name, setName] = useState("");
+
+  const current = scenarios.find((saved) => saved.id === currentId)?.scenario;
+  const changed = !!current && current.config !== encodedConfig;
+  const error = [save, update, duplicate, remove].find(
+    (mutation) => mutation.error,
+  )?.error;
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    if (!encodedConfig || !name.trim()) return;
+    save.mutate(
+      { name: name.trim(), config: encodedConfig },
+      {
+        onSuccess: (scenario) => {
+          setName("");
+          onOpenScenario(scenario);
+        },
+      },
+    );
+  }
+
+  function handleOpen(scenario: Scenario) {
+    onOpenScenario(scenario);
+    onOpenChange(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Scenarios</DialogTitle>
+          <DialogDescription>
+            Save the map under a short link. Anyone with the link can open it;
+            only this browser can change it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSave} className="space-y-2">
+          <Label htmlFor="scenario-name">Save this map as</Label>
+          <div className="flex gap-2">
+            <Input
+              id="scenario-name"
+              placeholder="Scenario name"
+              maxLength={SCENARIO_NAME_MAX_LENGTH}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Button
+              type="submit"
+              disabled={!encodedConfig || !name.trim() || save.isPending}
+            >
+              Save
+            </Button>
+          </div>
+          {current && currentId && isOwned(currentId) && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={!changed || !encodedConfig || update.isPending}
+              onClick={() =>
+                update.mutate({ id: currentId, config: encodedConfig })
+              }
+            >
+              {changed
+                ? `Save changes to “${current.name}”`
+                : `“${current.name}” is up to date`}
+            </Button>
+          )}
+        </form>
+
+        {error && <p className="text-sm text-red-500">{error.message}</p>}
+
+        <div className="space-y-1">
+          <h3 className="text-sm font-medium">Saved in this browser</h3>
+          {scenarios.length === 0 ? (
+            <p className="text-muted-foreground text-sm">Nothing saved yet.</p>
+          ) : (
+            <ul className="max-h-80 divide-y overflow-auto text-sm">
+              {scenarios.map((saved) => (
+                <ScenarioRow
+                  key={saved.id}
+                  saved={saved}
+                  current={saved.id === currentId}
+                  onOpen={handleOpen}
+                  onCopyLink={() => onCopyLink(getScenarioUrl(saved.id))}
+                  onRename={(name) => update.mutate({ id: saved.id, name })}
+                  onDuplicate={() => duplicate.mutate(saved.id)}
+                  onDelete={() => remove.mutate(saved.id)}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ScenariosDialog;
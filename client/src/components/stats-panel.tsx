@@ -0,0 +1,186 @@
+import { Button } from "@/components/ui/button";
+import { type ConfigItem, getMarkerName } from "@/hooks/use-config";
+import type { MapGeoJson, MapGeoJsonInfo } from "@/hooks/use-map";
+import { useProfiles } from "@/hooks/use-profiles";
+import { geometryQueryOptions } from "@/lib/geometry";
+import type { OverlayPolygon } from "@/lib/overlays";
+import { formatRange } from "@/lib/ranges";
+import { cn } from "@/lib/utils";
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { XIcon } from "lucide-react";
+import type { ReactNode } from "react";
+
+type IsochroneInfo = Extract<MapGeoJsonInfo, { kind: "isochrone" }>;
+
+const overlayTitles = {
+  pairwise: "Intersection",
+  common: "Common area",
+  union: "Union",
+  difference: "Difference",
+  coverage: "Coverage",
+};
+
+interface StatsPanelProps {
+  layer: MapGeoJson;
+  // Every layer on the map, to find an overlay's parent isochrones
+  layers: MapGeoJson[];
+  config: ConfigItem[];
+  onClose: () => void;
+  className?: string;
+}
+
+const formatLatLon = ([lon, lat]: [number, number]) =>
+  `${lat.toFixed(5)}, ${lon.toFixed(5)}`;
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <>
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="text-right">{children}</dd>
+    </>
+  );
+}
+
+// Area, perimeter and extent of a clicked isochrone or overlay, and for
+// overlays how much of each contributing isochrone it covers
+function StatsPanel({
+  layer,
+  layers,
+  config,
+  onClose,
+  className,
+}: StatsPanelProps) {
+  const profiles = useProfiles();
+  const feature = layer.data as OverlayPolygon;
+  const info = layer.info;
+
+  const { data: stats, error } = useQuery(
+    geometryQueryOptions({ type: "stats", feature }, layer.dataKey),
+  );
+
+  const parents =
+    info?.kind === "overlay"
+      ? info.markerIds.flatMap((id) => {
+          const parent = layers.find(
+            (candidate) =>
+              candidate.info?.kind === "isochrone" &&
+              candidate.info.markerId === id &&
+              candidate.info.outer,
+          );
+          return parent?.info?.kind === "isochrone"
+            ? [{ layer: parent, info: parent.info }]
+            : [];
+        })
+      : [];
+
+  const overlaps = useQueries({
+    queries: parents.map((parent) =>
+      geometryQueryOptions(
+        {
+          type: "overlap",
+          feature,
+          parent: parent.layer.data as OverlayPolygon,
+        },
+        `${layer.dataKey}|${parent.layer.dataKey}`,
+      ),
+    ),
+  });
+
+  const describe = (isochrone: IsochroneInfo) => {
+    const index = config.findIndex((item) => item.id === isochrone.markerId);
+    const profile =
+      profiles.find((profile) => profile.id === isochrone.transport)?.label ??
+      isochrone.transport;
+    return {
+      marker: config[index]
+        ? getMarkerName(config[index], index)
+        : `Marker ${index + 1}`,
+      profile,
+      range: formatRange(isochrone.value, isochrone.rangeType, isochrone.units),
+    };
+  };
+
+  const title =
+    info?.kind === "isochrone"
+      ? `${describe(info).marker} isochrone`
+      : info?.kind === "overlay"
+        ? info.mode === "coverage"
+          ? `Reached by ${info.count}+ markers`
+          : overlayTitles[info.mode]
+        : "Area";
+
+  return (
+    <div
+      className={cn(
+        "w-72 space-y-2 rounded-md bg-white/90 p-3 text-xs shadow",
+        className,
+      )}
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium">{title}</h2>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="size-6"
+          onClick={onClose}
+        >
+          <XIcon />
+          <span className="sr-only">Close</span>
+        </Button>
+      </div>
+
+      {error && <p className="text-red-600">{error.message}</p>}
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+        {info?.kind === "isochrone" && (
+          <>
+            <Row label="Profile">{describe(info).profile}</Row>
+            <Row label="Range">{describe(info).range}</Row>
+          </>
+        )}
+        {stats ? (
+          <>
+            <Row label="Area">{stats.area.toFixed(2)} km²</Row>
+            <Row label="Perimeter">{stats.perimeter.toFixed(2)} km</Row>
+            <Row label="Centroid">{formatLatLon(stats.centroid)}</Row>
+            <Row label="South-west">
+              {formatLatLon([stats.bbox[0], stats.bbox[1]])}
+            </Row>
+            <Row label="North-east">
+              {formatLatLon([stats.bbox[2], stats.bbox[3]])}
+            </Row>
+          </>
+        ) : (
+          !error && <Row label="Area">Calculating…</Row>
+        )}
+      </dl>
+
+      {parents.length > 0 && (
+        <div className="space-y-1 border-t pt-2">
+          <p className="text-muted-foreground">Share of each isochrone</p>
+          <ul className="space-y-1">
+            {parents.map((parent, index) => {
+              const { marker, profile, range } = describe(parent.info);
+              const overlap = overlaps[index]?.data;
+              return (
+                <li key={parent.layer.key} className="flex justify-between">
+                  <span>
+                    {marker} · {profile} · {range}
+                  </span>
+                  <span>
+                    {overlap === undefined
+                      ? "…"
+                      : `${(overlap * 100).toFixed(1)}%`}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default StatsPanel;
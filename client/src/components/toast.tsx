@@ -0,0 +1,62 @@
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { XIcon } from "lucide-react";
+import type { ReactNode } from "react";
+import { useTimeout } from "usehooks-ts";
+
+interface ToastProps {
+  title: string;
+  children?: ReactNode;
+  variant?: "error" | "success";
+  // Dismisses itself after this many milliseconds
+  duration?: number;
+  onDismiss: () => void;
+  className?: string;
+}
+
+// A notice over the map that stays until it's dismissed, or for `duration`
+function Toast({
+  title,
+  children,
+  variant = "error",
+  duration,
+  onDismiss,
+  className,
+}: ToastProps) {
+  useTimeout(onDismiss, duration ?? null);
+
+  return (
+    <div
+      role={variant === "error" ? "alert" : "status"}
+      className={cn(
+        "flex w-96 max-w-[calc(100%-1.5rem)] items-start gap-2 rounded-md border bg-white p-3 text-sm shadow-lg",
+        variant === "error" ? "border-red-200" : "border-green-200",
+        className,
+      )}
+    >
+      <div className="flex-1 space-y-1">
+        <p
+          className={cn(
+            "font-medium",
+            variant === "error" ? "text-red-600" : "text-green-700",
+          )}
+        >
+          {title}
+        </p>
+        {children && <div className="text-muted-foreground">{children}</div>}
+      </div>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="size-6"
+        aria-label="Dismiss"
+        onClick={onDismiss}
+      >
+        <XIcon />
+      </Button>
+    </div>
+  );
+}
+
+export default Toast;
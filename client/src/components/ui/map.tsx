@@ -1,37 +1,279 @@
-import type { MapHandlers, MapProps } from "@/hooks/use-map";
+import type {
+  MapFocus,
+  MapHandlers,
+  MapLegendItem,
+  MapMarkerError,
+  MapProps,
+  MapView,
+} from "@/hooks/use-map";
+import type { Basemap } from "@server/schemas/basemaps";
+import L from "leaflet";
+import { useEffect, useRef } from "react";
 import {
   GeoJSON,
+  LayersControl,
   MapContainer,
   Marker,
   Polyline,
   TileLayer,
+  Tooltip,
+  useMap,
   useMapEvents,
 } from "react-leaflet";
 
+const FOCUS_ZOOM = 15;
+
 function MapHandlers({ handlers }: { handlers?: MapHandlers }) {
   useMapEvents(handlers || {});
   return null;
 }
 
+const toLatLngBounds = ([west, south, east, north]: [
+  number,
+  number,
+  number,
+  number,
+]): L.LatLngBoundsExpression => [
+  [south, west],
+  [north, east],
+];
+
+function MapFocusHandler({ focus }: { focus: MapFocus }) {
+  const map = useMap();
+
+  useEffect(() => {
+    const { position, bbox } = focus;
+    if (bbox) {
+      map.flyToBounds(toLatLngBounds(bbox), { maxZoom: FOCUS_ZOOM });
+    } else {
+      map.flyTo(position, Math.max(map.getZoom(), FOCUS_ZOOM));
+    }
+  }, [map, focus]);
+
+  return null;
+}
+
+// Frames everything on the map when it opens, following the isochrones in
+// as they load, until they're all in or the map is moved by hand
+function MapAutoFit({
+  bounds,
+  pending,
+}: {
+  bounds?: [number, number, number, number];
+  pending?: boolean;
+}) {
+  const map = useMap();
+  const done = useRef(false);
+  const fitted = useRef<string>(undefined);
+
+  useMapEvents({
+    dragstart: () => {
+      done.current = true;
+    },
+  });
+
+  useEffect(() => {
+    if (done.current || !bounds) return;
+    if (!pending) done.current = true;
+
+    // Bounds are rebuilt on every render; only a change is worth a move
+    const key = bounds.join(",");
+    if (key === fitted.current) return;
+    fitted.current = key;
+    map.fitBounds(toLatLngBounds(bounds), {
+      maxZoom: FOCUS_ZOOM,
+      padding: [24, 24],
+      animate: false,
+    });
+  }, [map, bounds, pending]);
+
+  return null;
+}
+
+function MapViewHandler({
+  onViewChange,
+}: {
+  onViewChange: (view: MapView) => void;
+}) {
+  const map = useMapEvents({
+    moveend: () => {
+      const { lat, lng } = map.getCenter();
+      onViewChange({ center: [lat, lng], zoom: map.getZoom() });
+    },
+  });
+  return null;
+}
+
+// The map only measures its container on window resizes, and the marker
+// list opening beside it isn't one
+function MapResizeHandler() {
+  const map = useMap();
+
+  useEffect(() => {
+    const observer = new ResizeObserver(() => map.invalidateSize());
+    observer.observe(map.getContainer());
+    return () => observer.disconnect();
+  }, [map]);
+
+  return null;
+}
+
+function MarkerError({ error }: { error: MapMarkerError }) {
+  // The retry button sits on the map, so stop its clicks creating markers.
+  // A callback ref because the tooltip content mounts in a portal later.
+  const stopPropagation = (node: HTMLDivElement | null) => {
+    if (node) L.DomEvent.disableClickPropagation(node);
+  };
+
+  return (
+    <Tooltip permanent interactive direction="top" offset={[0, -10]}>
+      <div ref={stopPropagation} className="flex max-w-56 items-center gap-2">
+        <span className="whitespace-normal text-red-600">{error.message}</span>
+        <button
+          type="button"
+          className="shrink-0 rounded border px-1.5 py-0.5 text-xs font-medium hover:bg-neutral-100 disabled:opacity-50"
+          disabled={error.retrying}
+          onClick={error.onRetry}
+        >
+          {error.retrying ? "Retrying…" : "Retry"}
+        </button>
+      </div>
+    </Tooltip>
+  );
+}
+
+function BasemapLayer({ basemap }: { basemap: Basemap }) {
+  return (
+    <TileLayer
+      url={basemap.url}
+      attribution={basemap.attribution}
+      maxZoom={basemap.maxZoom}
+      {...(basemap.subdomains && { subdomains: basemap.subdomains })}
+    />
+  );
+}
+
+// Leaflet's own layer switcher, which tells basemaps apart by label
+function BasemapSwitcher({
+  basemaps,
+  basemap,
+  onChange,
+}: {
+  basemaps: Basemap[];
+  basemap?: string;
+  onChange?: (id: string) => void;
+}) {
+  useMapEvents({
+    baselayerchange: (e) => {
+      const picked = basemaps.find((item) => item.label === e.name);
+      if (picked) onChange?.(picked.id);
+    },
+  });
+
+  // `checked` only counts when the control mounts, so start over when the
+  // basemap changes from outside, e.g. on switching to dark mode
+  return (
+    <LayersControl key={basemap} position="topleft">
+      {basemaps.map((item) => (
+        <LayersControl.BaseLayer
+          key={item.id}
+          name={item.label}
+          checked={item.id === basemap}
+        >
+          <BasemapLayer basemap={item} />
+        </LayersControl.BaseLayer>
+      ))}
+    </LayersControl>
+  );
+}
+
+function MapLegend({ legend }: { legend: MapLegendItem[] }) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  // Keep clicks on the legend from reaching the map and creating markers
+  useEffect(() => {
+    if (ref.current) L.DomEvent.disableClickPropagation(ref.current);
+  }, []);
+
+  return (
+    <div className="leaflet-bottom leaflet-right">
+      <div
+        ref={ref}
+        className="leaflet-control space-y-2 rounded-md bg-white/90 px-3 py-2 text-xs shadow"
+      >
+        {legend.map((item) => (
+          <div key={item.key} className="space-y-1">
+            <p className="font-medium">{item.label}</p>
+            <div className="flex flex-wrap gap-2">
+              {item.bands.map((band) => (
+                <span key={band.value} className="flex items-center gap-1">
+                  <span
+                    className="inline-block size-3 rounded-sm border"
+                    style={{
+                      borderColor: item.color,
+                      backgroundColor: item.color,
+                      opacity: Math.min(band.fillOpacity * 3, 1),
+                    }}
+                  />
+                  {band.label}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function MapPending() {
+  return (
+    <div className="pointer-events-none absolute top-14 left-1/2 z-[1000] -translate-x-1/2 rounded-md bg-white/90 px-3 py-1.5 text-xs shadow">
+      Calculating overlaps…
+    </div>
+  );
+}
+
 function Map({
   handlers,
   markers,
   polylines,
   geojson,
+  legend,
+  pending,
+  focus,
   center,
   zoom,
+  bounds,
+  autoFit,
+  boundsPending,
+  onViewChange,
+  basemaps = [],
+  basemap,
+  onBasemapChange,
 }: MapProps) {
+  const current = basemaps.find((item) => item.id === basemap);
+
   return (
     <MapContainer
       center={center}
       zoom={zoom}
       style={{ height: "100%", width: "100%" }}
     >
-      <TileLayer
-        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-      />
+      {basemaps.length > 1 ? (
+        <BasemapSwitcher
+          basemaps={basemaps}
+          basemap={basemap}
+          onChange={onBasemapChange}
+        />
+      ) : (
+        current && <BasemapLayer key={current.id} basemap={current} />
+      )}
+      <MapResizeHandler />
+      {autoFit && <MapAutoFit bounds={bounds} pending={boundsPending} />}
+      {onViewChange && <MapViewHandler onViewChange={onViewChange} />}
       {handlers && <MapHandlers handlers={handlers} />}
+      {focus && <MapFocusHandler focus={focus} />}
       {polylines?.map((polyline) => (
         <Polyline
           key={polyline.key}
@@ -49,7 +291,17 @@ function Map({
           draggable={marker.draggable}
           icon={marker.icon}
           eventHandlers={marker.eventHandlers}
-        />
+        >
+          {marker.error ? (
+            <MarkerError error={marker.error} />
+          ) : (
+            marker.label && (
+              <Tooltip permanent direction="right" offset={[10, 0]}>
+                {marker.label}
+              </Tooltip>
+            )
+          )}
+        </Marker>
       ))}
       {geojson?.map((geo) => (
         <GeoJSON
@@ -59,6 +311,8 @@ function Map({
           eventHandlers={geo.eventHandlers}
         />
       ))}
+      {legend && legend.length > 0 && <MapLegend legend={legend} />}
+      {pending && <MapPending />}
     </MapContainer>
   );
 }
@@ -0,0 +1,31 @@
+import { useDarkMode } from "@/hooks/use-dark-mode";
+import { basemapsQueryOptions } from "@/lib/api";
+import { DEFAULT_BASEMAP_CONFIG, toBasemapList } from "@server/basemaps";
+import { useQuery } from "@tanstack/react-query";
+import { useLocalStorage } from "usehooks-ts";
+
+const STORAGE_KEY = "basemap";
+
+// Still a map to look at when the server's list can't be had
+const FALLBACK_BASEMAPS = toBasemapList(DEFAULT_BASEMAP_CONFIG);
+
+// The basemaps on offer and the one showing: the last one picked, or else
+// the light or dark default to match the colour scheme
+export function useBasemaps() {
+  const { data, isError } = useQuery(basemapsQueryOptions);
+  const isDark = useDarkMode();
+  const [picked, setPicked] = useLocalStorage<string | null>(STORAGE_KEY, null);
+
+  const list = data ?? (isError ? FALLBACK_BASEMAPS : undefined);
+  const automatic = isDark ? list?.dark : list?.default;
+  const basemap = list?.basemaps.some((basemap) => basemap.id === picked)
+    ? picked!
+    : automatic;
+
+  return {
+    basemaps: list?.basemaps ?? [],
+    basemap,
+    // Picking the default goes back to following the colour scheme
+    setBasemap: (id: string) => setPicked(id === automatic ? null : id),
+  };
+}
@@ -0,0 +1,110 @@
+import { useRef } from "react";
+import { useEventListener, useSessionStorage } from "usehooks-ts";
+
+// Encoded configs either side of the current one; "" is a map with no
+// config param at all
+interface ConfigHistory {
+  past: string[];
+  future: string[];
+}
+
+const STORAGE_KEY = "config-history";
+const HISTORY_LIMIT = 100;
+// Changes with the same key this close together undo as one
+const COALESCE_WINDOW = 1500; // ms
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Dialogs are only in the DOM while open. They edit a marker or scenario of
+// their own, which undoing behind them would swap out.
+const isDialogOpen = () =>
+  document.querySelector('[role="dialog"], [role="alertdialog"]') !== null;
+
+// Undo and redo over the map's config, kept for the browser tab's session.
+// `record` saves the current config just before a change replaces it, and
+// `onRestore` puts an older or newer one back.
+export function useConfigHistory(
+  current: string | undefined,
+  onRestore: (config: string | undefined) => void,
+) {
+  const [history, setHistory] = useSessionStorage<ConfigHistory>(STORAGE_KEY, {
+    past: [],
+    future: [],
+  });
+  const lastChange = useRef<{ key: string; at: number } | null>(null);
+
+  function record(coalesceKey?: string) {
+    const now = Date.now();
+    const last = lastChange.current;
+    lastChange.current = coalesceKey ? { key: coalesceKey, at: now } : null;
+
+    // The first change of the run already saved what to go back to
+    if (
+      coalesceKey &&
+      last?.key === coalesceKey &&
+      now - last.at < COALESCE_WINDOW &&
+      history.past.length > 0
+    ) {
+      return;
+    }
+
+    setHistory({
+      past: [...history.past, current ?? ""].slice(-HISTORY_LIMIT),
+      future: [],
+    });
+  }
+
+  function undo() {
+    const previous = history.past.at(-1);
+    if (previous === undefined) return;
+
+    lastChange.current = null;
+    setHistory({
+      past: history.past.slice(0, -1),
+      future: [current ?? "", ...history.future],
+    });
+    onRestore(previous || undefined);
+  }
+
+  function redo() {
+    const [next, ...future] = history.future;
+    if (next === undefined) return;
+
+    lastChange.current = null;
+    setHistory({ past: [...history.past, current ?? ""], future });
+    onRestore(next || undefined);
+  }
+
+  // Ctrl+Z and Ctrl+Shift+Z (or Ctrl+Y), and Cmd on macOS. Text fields
+  // keep their own undo, and nothing is undone while a dialog is open.
+  useEventListener("keydown", (e) => {
+    if (
+      !(e.ctrlKey || e.metaKey) ||
+      e.altKey ||
+      isTextInput(e.target) ||
+      isDialogOpen()
+    ) {
+      return;
+    }
+
+    const key = e.key.toLowerCase();
+    if (key === "z" && !e.shiftKey) {
+      e.preventDefault();
+      undo();
+    } else if ((key === "z" && e.shiftKey) || key === "y") {
+      e.preventDefault();
+      redo();
+    }
+  });
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
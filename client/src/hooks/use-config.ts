@@ -1,33 +1,90 @@
+import { ConfigDecodeError, decodeConfig } from "@server/config-codec";
+import { type Profile, profiles } from "@server/profiles";
 import { useMemo } from "react";
 import { z } from "zod";
 
+export { encodeConfig } from "@server/config-codec";
+
 export const locationSchema = z.tuple([z.number(), z.number()]);
 
-export const transportSchema = z.enum([
-  "driving-car",
-  "cycling-regular",
-  "foot-walking",
-]);
+// The same profile ids the server accepts, so a link with an unknown one
+// drops that marker instead of failing every request for it
+export const transportSchema = z.enum(
+  profiles.map((profile) => profile.id) as [Profile, ...Profile[]],
+);
+
+export const rangeTypeSchema = z.enum(["time", "distance"]);
+
+export const unitsSchema = z.enum(["km", "mi"]);
+
+export const rangesSchema = z.array(z.number().positive()).nonempty();
+
+export const MARKER_NAME_MAX_LENGTH = 60;
+export const MARKER_NOTES_MAX_LENGTH = 500;
+
+export const colorSchema = z.string().regex(/^#[0-9a-f]{6}$/i);
 
 export const configItemSchema = z.object({
   id: z.string(),
   location: locationSchema,
   transport: transportSchema,
-  range: z.number(),
+  ranges: rangesSchema,
+  rangeType: rangeTypeSchema.default("time"),
+  units: unitsSchema.default("km"),
+  // Optional, so links from before they existed still parse
+  name: z.string().max(MARKER_NAME_MAX_LENGTH).optional(),
+  notes: z.string().max(MARKER_NOTES_MAX_LENGTH).optional(),
+  // Overrides the transport's colour
+  color: colorSchema.optional(),
+  // Listed, but left off the map and out of overlays and exports
+  hidden: z.boolean().optional(),
 });
 
 export const configSchema = z.array(configItemSchema);
 
 export type ConfigItem = z.infer<typeof configItemSchema>;
 
-export function useConfig(encodedConfig?: string): ConfigItem[] {
-  return useMemo(() => {
-    if (!encodedConfig) return [];
-    try {
-      const parsed = configSchema.parse(JSON.parse(atob(encodedConfig)));
-      return parsed;
-    } catch {
-      return [];
-    }
-  }, [encodedConfig]);
+export interface ParsedConfig {
+  config: ConfigItem[];
+  // Why some or all of the markers in the link were left out
+  error?: string;
+}
+
+// What the UI calls a marker: its name, or its position in the list
+export const getMarkerName = (item: ConfigItem, index: number) =>
+  item.name || `Marker ${index + 1}`;
+
+// Keeps every marker that still reads, and says how many didn't
+export function parseConfig(encodedConfig?: string): ParsedConfig {
+  if (!encodedConfig) return { config: [] };
+
+  let items: unknown[];
+  try {
+    items = decodeConfig(encodedConfig);
+  } catch (error) {
+    return {
+      config: [],
+      error:
+        error instanceof ConfigDecodeError
+          ? error.message
+          : "The markers in this link could not be read",
+    };
+  }
+
+  const config = items.flatMap((item) => {
+    const result = configItemSchema.safeParse(item);
+    return result.success ? [result.data] : [];
+  });
+  const dropped = items.length - config.length;
+
+  return dropped > 0
+    ? {
+        config,
+        error: `${dropped} of ${items.length} markers in this link could not be read`,
+      }
+    : { config };
+}
+
+export function useConfig(encodedConfig?: string): ParsedConfig {
+  return useMemo(() => parseConfig(encodedConfig), [encodedConfig]);
 }
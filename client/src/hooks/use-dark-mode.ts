@@ -0,0 +1,21 @@
+import { useMediaQuery } from "@/hooks/use-media-query";
+import { useSyncExternalStore } from "react";
+
+const subscribe = (onChange: () => void) => {
+  const observer = new MutationObserver(onChange);
+  observer.observe(document.documentElement, {
+    attributes: true,
+    attributeFilter: ["class"],
+  });
+  return () => observer.disconnect();
+};
+
+const hasDarkClass = () => document.documentElement.classList.contains("dark");
+
+// Dark when the system prefers it or the page is switched to it with the
+// `dark` class the styles key on
+export function useDarkMode() {
+  const prefersDark = useMediaQuery("(prefers-color-scheme: dark)");
+  const darkClass = useSyncExternalStore(subscribe, hasDarkClass);
+  return prefersDark || darkClass;
+}
@@ -0,0 +1,45 @@
+import { geocodeQueryOptions, reverseGeocodeQueryOptions } from "@/lib/api";
+import { keepPreviousData, skipToken, useQuery } from "@tanstack/react-query";
+import { useDebounceValue } from "usehooks-ts";
+
+export const GEOCODE_MIN_LENGTH = 3;
+const GEOCODE_DEBOUNCE = 300; // ms
+
+// Suggestions for what's been typed so far, once typing pauses
+export function useGeocodeSearch(text: string) {
+  const [query] = useDebounceValue(text.trim(), GEOCODE_DEBOUNCE);
+
+  const enabled = query.length >= GEOCODE_MIN_LENGTH;
+  const options = geocodeQueryOptions(query);
+  const { data, error, isFetching } = useQuery({
+    ...options,
+    queryFn: enabled ? options.queryFn : skipToken,
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    results: enabled ? (data?.results ?? []) : [],
+    attribution: data?.attribution,
+    error,
+    // Still typing, or waiting for the geocoder
+    pending: enabled && (isFetching || query !== text.trim()),
+  };
+}
+
+// A readable address for a location; undefined until it's known
+export function useReverseGeocode(
+  location: [number, number],
+  { enabled = true }: { enabled?: boolean } = {},
+) {
+  const options = reverseGeocodeQueryOptions(location);
+  const { data, error, isPending } = useQuery({
+    ...options,
+    queryFn: enabled ? options.queryFn : skipToken,
+  });
+
+  return {
+    label: data?.result?.label,
+    error,
+    pending: enabled && isPending,
+  };
+}
@@ -1,11 +1,33 @@
-import { createIsochroneQueryOptions } from "@/lib/api";
-import { useQueries } from "@tanstack/react-query";
-import { featureCollection, intersect, polygon } from "@turf/turf";
+import { ApiRequestError, createIsochroneQueryOptions } from "@/lib/api";
+import { geometryQueryOptions } from "@/lib/geometry";
+import type {
+  CoverageLevel,
+  GeometryTask,
+  OverlayArea,
+  OverlaySource,
+} from "@/lib/overlays";
+import { formatRange, type RangeType, type Units } from "@/lib/ranges";
+import type { Basemap } from "@server/schemas/basemaps";
+import type { IsochronesResponse, Profile } from "@server/schemas/isochrones";
+import { translateIsochrones } from "@server/snap";
+import {
+  keepPreviousData,
+  useQueries,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { bbox, featureCollection } from "@turf/turf";
 import type { GeoJsonObject } from "geojson";
 import type { LeafletEvent, LeafletMouseEvent } from "leaflet";
 import L from "leaflet";
 import { useMemo, useState } from "react";
+import { useDebounceValue } from "usehooks-ts";
 import type { ConfigItem } from "./use-config";
+import {
+  DEFAULT_PROFILE_COLOR,
+  useProfileColors,
+  useProfiles,
+} from "./use-profiles";
 
 export interface MapHandlers {
   click?: (e: LeafletMouseEvent) => void;
@@ -19,19 +41,33 @@ export interface MarkerHandlers {
 }
 
 export interface IsochroneHandlers {
-  click?: (e: LeafletEvent) => void;
+  click?: (geojson: MapGeoJson, e: LeafletEvent) => void;
 }
 
 export interface IntersectionHandlers {
-  click?: (e: LeafletEvent) => void;
+  click?: (geojson: MapGeoJson, e: LeafletEvent) => void;
+}
+
+export interface OverlayHandlers {
+  click?: (geojson: MapGeoJson, e: LeafletEvent) => void;
+}
+
+export interface MapMarkerError {
+  message: string;
+  retryable: boolean;
+  retrying: boolean;
+  onRetry: () => void;
 }
 
 export interface MapMarker {
   key: string;
   id: string;
   position: [number, number];
+  // Shown next to the marker at all times
+  label?: string;
   draggable?: boolean;
   icon?: L.DivIcon;
+  error?: MapMarkerError;
   eventHandlers?: Partial<
     Record<
       "dragstart" | "drag" | "dragend" | "click",
@@ -49,51 +85,293 @@ export interface MapPolyline {
   opacity?: number;
 }
 
+// What a layer was drawn from, for the details panel
+export type MapGeoJsonInfo =
+  | {
+      kind: "isochrone";
+      markerId: string;
+      transport: Profile;
+      value: number;
+      rangeType: RangeType;
+      units: Units;
+      outer: boolean;
+    }
+  | {
+      kind: "overlay";
+      mode: OverlayMode;
+      markerIds: string[];
+      // Coverage level, in markers
+      count?: number;
+    };
+
 export interface MapGeoJson {
   key: string;
   data: GeoJsonObject;
+  // Names `data` by where and when it was loaded, without reading it, so
+  // work on it can be cached across renders that rebuild the object
+  dataKey: string;
+  info?: MapGeoJsonInfo;
   style?: L.PathOptions;
   eventHandlers?: Partial<Record<"click", (e: LeafletEvent) => void>>;
 }
 
+export interface MapLegendBand {
+  value: number;
+  label: string;
+  fillOpacity: number;
+}
+
+export interface MapLegendItem {
+  key: string;
+  label: string;
+  color: string;
+  bands: MapLegendBand[];
+}
+
+// A place to move the map to; every new focus object moves it again
+export interface MapFocus {
+  position: [number, number]; // [lat, lng]
+  // [west, south, east, north]; fitted instead of zooming in on `position`
+  bbox?: [number, number, number, number];
+}
+
+// Where the map is looking
+export interface MapView {
+  center: [number, number]; // [lat, lng]
+  zoom: number;
+}
+
 export interface MapProps {
   handlers?: MapHandlers;
   markers?: MapMarker[];
   polylines?: MapPolyline[];
   geojson?: MapGeoJson[];
+  legend?: MapLegendItem[];
+  // Overlay geometry is still being computed
+  pending?: boolean;
+  focus?: MapFocus;
   center?: [number, number];
   zoom?: number;
+  // Every marker and loaded isochrone, [west, south, east, north]
+  bounds?: [number, number, number, number];
+  // Fit `bounds` once they're in, rather than keep `center` and `zoom`
+  autoFit?: boolean;
+  // Isochrones still loading, so `bounds` may yet grow
+  boundsPending?: boolean;
+  onViewChange?: (view: MapView) => void;
+  // The tiles underneath, and which of them show
+  basemaps?: Basemap[];
+  basemap?: string;
+  onBasemapChange?: (id: string) => void;
+}
+
+export type OverlayMode =
+  | "pairwise"
+  | "common"
+  | "union"
+  | "difference"
+  | "coverage";
+
+export interface OverlayOptions {
+  mode: OverlayMode;
+  // Marker ids to include in the common area; all markers when unset
+  selection?: string[];
+  // Markers to subtract; the first two markers when unset
+  difference?: { from?: string; minus?: string };
+}
+
+export interface MapOverlay {
+  mode: OverlayMode;
+  pending: boolean;
+  error?: string;
+  // Result of the common, union and difference modes
+  area?: OverlayArea;
+  difference?: { from?: string; minus?: string };
+  coverage?: CoverageLevel[];
 }
 
 export const MAP_DEFAULT_CENTER: [number, number] = [51.5074, -0.1278]; // London
 export const MAP_DEFAULT_ZOOM = 11;
 
-const transportColors: Record<ConfigItem["transport"], string> = {
-  "driving-car": "#3b82f6",
-  "foot-walking": "#10b981",
-  "cycling-regular": "#f59e0b",
-};
+// Shorter bands are more opaque, so nested rings read as a gradient outwards
+const getBandFillOpacity = (index: number, count: number) =>
+  count === 1 ? 0.25 : 0.1 + (0.15 * (count - 1 - index)) / (count - 1);
 
-const createDotIcon = (color: string) => {
+const createDotIcon = (color: string, { error = false } = {}) => {
+  const badge = error
+    ? `<div style="position: absolute; top: -8px; right: -8px; width: 12px; height: 12px; border-radius: 50%; background-color: #ef4444; color: white; font: bold 9px/12px sans-serif; text-align: center; box-shadow: 0 0 0 1px white;">!</div>`
+    : "";
   return L.divIcon({
     className: "dot-marker",
-    html: `<div style="background-color: ${color}; width: 16px; height: 16px; border-radius: 50%; border: 2px solid ${color}; box-shadow: 0 0 0 2px white;"></div>`,
+    html: `<div style="position: relative; background-color: ${color}; width: 16px; height: 16px; border-radius: 50%; border: 2px solid ${color}; box-shadow: 0 0 0 2px white;">${badge}</div>`,
     iconSize: [16, 16],
     iconAnchor: [8, 8],
   });
 };
 
-function useMarkers(config: ConfigItem[]): MapMarker[] {
+// Light to dark as more markers reach an area
+const COVERAGE_COLORS = ["#fde047", "#fb923c", "#f97316", "#ef4444", "#b91c1c"];
+
+export const getCoverageColor = (count: number) =>
+  COVERAGE_COLORS[Math.min(count, COVERAGE_COLORS.length) - 1];
+
+const overlayStyles: Record<Exclude<OverlayMode, "coverage">, L.PathOptions> = {
+  pairwise: { color: "#8b5cf6", weight: 2, opacity: 1, fillOpacity: 0.4 },
+  common: { color: "#db2777", weight: 2, opacity: 1, fillOpacity: 0.45 },
+  union: { color: "#0ea5e9", weight: 2, opacity: 1, fillOpacity: 0.3 },
+  difference: { color: "#f97316", weight: 2, opacity: 1, fillOpacity: 0.45 },
+};
+
+export const getMarkerColor = (
+  item: { transport: string; color?: string },
+  colors: Record<string, string>,
+) => item.color ?? colors[item.transport] ?? DEFAULT_PROFILE_COLOR;
+
+const getIsochroneQueries = (config: ConfigItem[]) =>
+  config.map((item) =>
+    createIsochroneQueryOptions(item, { batch: config.length > 1 }),
+  );
+
+// Failed isochrone queries by marker id, so the map can flag them
+function useIsochroneErrors(
+  config: ConfigItem[],
+): Record<string, MapMarkerError> {
+  return useQueries({
+    queries: getIsochroneQueries(config),
+    combine: (results) => {
+      const errors: Record<string, MapMarkerError> = {};
+
+      results.forEach((result, index) => {
+        const item = config[index];
+        if (!item || !result.error) return;
+
+        errors[item.id] = {
+          message: result.error.message,
+          retryable:
+            result.error instanceof ApiRequestError
+              ? result.error.retryable
+              : true,
+          retrying: result.isFetching,
+          onRetry: () => {
+            result.refetch();
+          },
+        };
+      });
+
+      return errors;
+    },
+  });
+}
+
+export type MarkerStatus =
+  | { state: "hidden" }
+  | { state: "loading" }
+  | { state: "error"; error: MapMarkerError }
+  | { state: "ready"; bands: number; bbox: [number, number, number, number] };
+
+// Where each marker's isochrones are at, by marker id, for the marker list
+export function useMarkerStatuses(
+  config: ConfigItem[],
+): Record<string, MarkerStatus> {
+  const visible = useMemo(
+    () => config.filter((item) => !item.hidden),
+    [config],
+  );
+  const errors = useIsochroneErrors(visible);
+  const loaded = useQueries({
+    queries: getIsochroneQueries(visible),
+    combine: (results) =>
+      Object.fromEntries(
+        results.flatMap((result, index) =>
+          result.data && result.data.features.length > 0
+            ? [[visible[index]!.id, result.data.features]]
+            : [],
+        ),
+      ),
+  });
+
+  return useMemo(
+    () =>
+      Object.fromEntries(
+        config.map((item): [string, MarkerStatus] => {
+          const features = loaded[item.id];
+          const error = errors[item.id];
+          if (item.hidden) return [item.id, { state: "hidden" }];
+          if (error) return [item.id, { state: "error", error }];
+          if (!features) return [item.id, { state: "loading" }];
+          return [
+            item.id,
+            {
+              state: "ready",
+              bands: features.length,
+              bbox: bbox(featureCollection(features)) as [
+                number,
+                number,
+                number,
+                number,
+              ],
+            },
+          ];
+        }),
+      ),
+    [config, loaded, errors],
+  );
+}
+
+// The smallest box around every marker and its isochrones, as far as
+// they've loaded
+function useBounds(config: ConfigItem[]): {
+  bounds?: [number, number, number, number];
+  pending: boolean;
+} {
+  const statuses = useMarkerStatuses(config);
+
+  return useMemo(() => {
+    const boxes = config.flatMap((item) => {
+      const status = statuses[item.id];
+      const point = [...item.location, ...item.location];
+      return status?.state === "ready" ? [point, status.bbox] : [point];
+    });
+    const edge = (index: number, pick: (...values: number[]) => number) =>
+      pick(...boxes.map((box) => box[index]!));
+    const bounds: [number, number, number, number] | undefined =
+      boxes.length > 0
+        ? [
+            edge(0, Math.min),
+            edge(1, Math.min),
+            edge(2, Math.max),
+            edge(3, Math.max),
+          ]
+        : undefined;
+
+    return {
+      bounds,
+      pending: Object.values(statuses).some(
+        (status) => status.state === "loading",
+      ),
+    };
+  }, [config, statuses]);
+}
+
+function useMarkers(
+  config: ConfigItem[],
+  colors: Record<string, string>,
+  errors: Record<string, MapMarkerError>,
+): MapMarker[] {
   return useMemo(() => {
     if (!config || config.length === 0) return [];
     return config.map((item) => ({
-      key: `marker-${item.location}`,
+      key: `marker-${item.id}-${item.location}`,
       id: item.id,
       position: [item.location[1], item.location[0]], // [lat, lon]
+      label: item.name,
       draggable: true,
-      icon: createDotIcon(transportColors[item.transport]),
+      icon: createDotIcon(getMarkerColor(item, colors), {
+        error: !!errors[item.id],
+      }),
+      error: errors[item.id],
     }));
-  }, [config]);
+  }, [config, colors, errors]);
 }
 
 function useMarkersWithHandlers(
@@ -123,32 +401,54 @@ function useMarkersWithHandlers(
   }, [markers, handlers]);
 }
 
-function useGeoJson(config: ConfigItem[]): MapGeoJson[] {
+function useGeoJson(
+  config: ConfigItem[],
+  colors: Record<string, string>,
+): MapGeoJson[] {
   const geojson = useQueries({
-    queries: config.map((item) => createIsochroneQueryOptions(item)) ?? [],
+    queries: getIsochroneQueries(config),
     combine: (results) => {
       const features: MapGeoJson[] = [];
 
-      results.forEach((result) => {
+      results.forEach((result, index) => {
+        const item = config[index];
         const data = result.data;
-        if (!data) return;
+        if (!item || !data) return;
 
-        const feature = data.features?.[0];
         const locations = data.metadata?.query?.locations;
         const transport = data.metadata?.query?.transport;
-
-        if (feature && transport && locations) {
-          features.push({
-            key: `geojson-${locations[0].join(",")}`,
-            data: feature,
-            style: {
-              color: transportColors[transport],
-              weight: 1,
-              opacity: 1,
-              fillOpacity: 0.25,
-            },
+        if (!transport || !locations) return;
+        const isochronesKey = getIsochronesKey(item, result.dataUpdatedAt);
+
+        // Draw the widest band first so the inner ones stay on top
+        const bands = [...data.features].sort(
+          (a, b) => a.properties.value - b.properties.value,
+        );
+        bands
+          .map((feature, index) => ({ feature, index }))
+          .reverse()
+          .forEach(({ feature, index }) => {
+            features.push({
+              key: `geojson-${item.id}-${locations[0].join(",")}-${feature.properties.value}`,
+              data: feature,
+              dataKey: `${isochronesKey}:${feature.properties.value}`,
+              info: {
+                kind: "isochrone",
+                markerId: item.id,
+                transport,
+                value: feature.properties.value,
+                rangeType: item.rangeType,
+                units: item.units,
+                outer: index === bands.length - 1,
+              },
+              style: {
+                color: getMarkerColor({ transport, color: item.color }, colors),
+                weight: 1,
+                opacity: 1,
+                fillOpacity: getBandFillOpacity(index, bands.length),
+              },
+            });
           });
-        }
       });
 
       return features;
@@ -158,6 +458,43 @@ function useGeoJson(config: ConfigItem[]): MapGeoJson[] {
   return geojson;
 }
 
+function useLegend(
+  config: ConfigItem[],
+  colors: Record<string, string>,
+): MapLegendItem[] {
+  const profiles = useProfiles();
+
+  return useMemo(
+    () =>
+      config.map((item) => {
+        const ranges = [...item.ranges].sort((a, b) => a - b);
+        const profile =
+          profiles.find((profile) => profile.id === item.transport)?.label ??
+          item.transport;
+        return {
+          key: `legend-${item.id}`,
+          label: item.name ? `${item.name} · ${profile}` : profile,
+          color: getMarkerColor(item, colors),
+          bands: ranges.map((value, index) => ({
+            value,
+            label: formatRange(value, item.rangeType, item.units),
+            fillOpacity: getBandFillOpacity(index, ranges.length),
+          })),
+        };
+      }),
+    [config, colors, profiles],
+  );
+}
+
+// A click on a shaded area opens its details rather than adding a marker
+// underneath; shift-click still adds one
+const handleLayerClick = (e: LeafletEvent, callback: () => void) => {
+  const event = e as LeafletMouseEvent;
+  if (event.originalEvent?.shiftKey) return;
+  L.DomEvent.stopPropagation(event);
+  callback();
+};
+
 function useGeoJsonWithHandlers(
   geojson: MapGeoJson[],
   handlers?: IsochroneHandlers,
@@ -169,16 +506,20 @@ function useGeoJsonWithHandlers(
       ...geo,
       eventHandlers: {
         click: (e: LeafletEvent) => {
-          handlers.click?.(e);
+          handleLayerClick(e, () => handlers.click?.(geo, e));
         },
       },
     }));
   }, [geojson, handlers]);
 }
 
-function usePolylines(
-  polyline: { from: [number, number]; to: [number, number] } | null,
-): MapPolyline[] {
+interface MarkerDrag {
+  id: string;
+  from: [number, number];
+  to: [number, number];
+}
+
+function usePolylines(polyline: MarkerDrag | null): MapPolyline[] {
   if (!polyline) return [];
   return [
     {
@@ -195,69 +536,337 @@ function usePolylines(
   ];
 }
 
-function useIntersections(config: ConfigItem[]): MapGeoJson[] {
-  const intersections = useQueries({
-    queries: config.map((item) => createIsochroneQueryOptions(item)) ?? [],
-    combine: (results) => {
-      const intersections: MapGeoJson[] = [];
-
-      for (let i = 0; i < results.length; i++) {
-        const dataI = results[i].data;
-        if (!dataI) continue;
-
-        for (let j = i + 1; j < results.length; j++) {
-          const dataJ = results[j].data;
-          if (!dataJ) continue;
-
-          const coordsI = dataI.features[0].geometry?.coordinates;
-          const coordsJ = dataJ.features[0].geometry?.coordinates;
-          if (!coordsI || !coordsJ) continue;
-
-          const polygon1 = polygon(coordsI);
-          const polygon2 = polygon(coordsJ);
+// Intersections use each marker's widest band
+function getOuterFeature<T extends { properties: { value: number } }>(
+  features: T[],
+): T | undefined {
+  return features.reduce<T | undefined>(
+    (outer, feature) =>
+      !outer || feature.properties.value > outer.properties.value
+        ? feature
+        : outer,
+    undefined,
+  );
+}
 
-          const intersection = intersect(
-            featureCollection([polygon1, polygon2]),
-          );
+// Names a marker's isochrones without reading their coordinates: the query
+// they came from, when it last loaded and where they were moved to
+const getIsochronesKey = (item: ConfigItem, dataUpdatedAt: number) =>
+  [
+    item.id,
+    item.transport,
+    item.rangeType,
+    item.ranges.join(","),
+    item.location.join(","),
+    dataUpdatedAt,
+  ].join(":");
+
+// A dragged marker's isochrones where the pointer last rested
+interface PreviewSource {
+  source: OverlaySource;
+  key: string;
+}
 
-          if (intersection) {
-            intersections.push({
-              key: `intersection-${coordsI[0][0].join(",")}-${coordsJ[0][0].join(",")}`,
-              data: intersection,
-              style: {
-                color: "#8b5cf6",
-                weight: 2,
-                opacity: 1,
-                fillOpacity: 0.4,
-              },
-            });
-          }
+// Widest band of each marker's isochrones, in config order, with a dragged
+// marker's preview standing in for where it was. `keys` names each source
+// by marker id, for caching overlays.
+function useOverlaySources(
+  config: ConfigItem[],
+  preview?: PreviewSource,
+): {
+  pending: boolean;
+  sources: OverlaySource[];
+  keys: Record<string, string>;
+} {
+  return useQueries({
+    queries: getIsochroneQueries(config),
+    combine: (results) => {
+      const sources: OverlaySource[] = [];
+      const keys: Record<string, string> = {};
+      results.forEach((result, index) => {
+        const item = config[index];
+        if (preview?.source.id === item.id) {
+          sources.push(preview.source);
+          keys[item.id] = preview.key;
+          return;
         }
-      }
-
-      return intersections;
+        const feature = result.data && getOuterFeature(result.data.features);
+        if (!feature) return;
+        sources.push({ id: item.id, feature });
+        keys[item.id] = getIsochronesKey(item, result.dataUpdatedAt);
+      });
+      return {
+        pending: results.some((result) => result.isPending),
+        sources,
+        keys,
+      };
     },
   });
+}
+
+// Markers each mode combines
+function getOverlayItems(
+  config: ConfigItem[],
+  overlay: OverlayOptions,
+): ConfigItem[] {
+  switch (overlay.mode) {
+    case "common": {
+      const selection = overlay.selection;
+      return selection
+        ? config.filter((item) => selection.includes(item.id))
+        : config;
+    }
+    case "difference": {
+      const { from, minus } = getDifferencePair(config, overlay);
+      return config.filter((item) => item.id === from || item.id === minus);
+    }
+    default:
+      return config;
+  }
+}
+
+const getDifferencePair = (config: ConfigItem[], overlay: OverlayOptions) => ({
+  from: overlay.difference?.from ?? config[0]?.id,
+  minus: overlay.difference?.minus ?? config[1]?.id,
+});
+
+// Runs a geometry task in the worker, keeping the last result on screen
+// while the next one computes
+const useGeometry = <T extends GeometryTask>(task: T | null, key: string) =>
+  useQuery({
+    ...geometryQueryOptions(task, key),
+    placeholderData: keepPreviousData,
+  });
+
+const pendingArea: OverlayArea = { status: "pending", count: 0, ids: [] };
+
+function useOverlay(
+  config: ConfigItem[],
+  overlay: OverlayOptions,
+  preview?: PreviewSource,
+): { layers: MapGeoJson[]; summary: MapOverlay } {
+  const { mode } = overlay;
+  const items = getOverlayItems(config, overlay);
+  const { pending, sources, keys } = useOverlaySources(items, preview);
+  const pair = getDifferencePair(config, overlay);
+  const sourcesKey = sources.map((source) => keys[source.id]).join("|");
+  const from = sources.find((source) => source.id === pair.from);
+  const minus = sources.find((source) => source.id === pair.minus);
+  const differenceKey = `${from && keys[from.id]}|${minus && keys[minus.id]}`;
+
+  // Partial inputs would flash a wrong answer for the single-result modes,
+  // so those wait for every isochrone
+  const pairwise = useGeometry(
+    mode === "pairwise" ? { type: "pairwise", sources } : null,
+    sourcesKey,
+  );
+  const common = useGeometry(
+    mode === "common" && !pending ? { type: "common", sources } : null,
+    sourcesKey,
+  );
+  const union = useGeometry(
+    mode === "union" && !pending ? { type: "union", sources } : null,
+    sourcesKey,
+  );
+  const difference = useGeometry(
+    mode === "difference" && !pending
+      ? { type: "difference", from, minus }
+      : null,
+    differenceKey,
+  );
+  const coverage = useGeometry(
+    mode === "coverage" ? { type: "coverage", sources } : null,
+    sourcesKey,
+  );
 
-  return intersections;
+  const active = { pairwise, common, union, difference, coverage }[mode];
+  // Names the result on screen. One kept from the last inputs while these
+  // compute has no load time yet, which sets it apart from the real one.
+  const activeKey = `${mode}:${mode === "difference" ? differenceKey : sourcesKey}:${active.dataUpdatedAt}`;
+  const computing = pending || active.isFetching;
+  const error = active.error?.message;
+
+  const layers = useMemo((): MapGeoJson[] => {
+    const toLayer = (key: string, area: OverlayArea | undefined) =>
+      area?.feature
+        ? [
+            {
+              key: `${key}-${area.centroid?.join(",")}`,
+              data: area.feature,
+              dataKey: activeKey,
+              info: { kind: "overlay" as const, mode, markerIds: area.ids },
+              style: overlayStyles[mode as keyof typeof overlayStyles],
+            },
+          ]
+        : [];
+
+    switch (mode) {
+      case "pairwise":
+        return (pairwise.data ?? []).map(({ ids, feature }) => ({
+          key: `intersection-${ids.join("-")}`,
+          data: feature,
+          dataKey: `${activeKey}:${ids.join(",")}`,
+          info: { kind: "overlay", mode, markerIds: ids },
+          style: overlayStyles.pairwise,
+        }));
+      case "common":
+        return toLayer("common", common.data);
+      case "union":
+        return toLayer("union", union.data);
+      case "difference":
+        return toLayer("difference", difference.data);
+      case "coverage":
+        // Levels stack, so areas reached by more markers read darker
+        return (coverage.data ?? []).map((level: CoverageLevel) => ({
+          key: `coverage-${level.count}-${level.area}`,
+          data: { ...level.feature, properties: { count: level.count } },
+          dataKey: `${activeKey}:${level.count}`,
+          info: {
+            kind: "overlay",
+            mode,
+            markerIds: level.ids,
+            count: level.count,
+          },
+          style: {
+            color: getCoverageColor(level.count),
+            weight: 1,
+            opacity: 1,
+            fillOpacity: 0.35,
+          },
+        }));
+    }
+  }, [
+    mode,
+    activeKey,
+    pairwise.data,
+    common.data,
+    union.data,
+    difference.data,
+    coverage.data,
+  ]);
+
+  const summary: MapOverlay = { mode, pending: computing, error };
+  switch (mode) {
+    case "common":
+    case "union":
+    case "difference": {
+      const result = { common, union, difference }[mode];
+      summary.area = computing ? pendingArea : (result.data ?? pendingArea);
+      if (mode === "difference") summary.difference = pair;
+      break;
+    }
+    case "coverage":
+      summary.coverage = coverage.data ?? [];
+      break;
+  }
+
+  return { layers, summary };
 }
 
-function useIntersectionsWithHandlers(
-  intersections: MapGeoJson[],
-  handlers?: IntersectionHandlers,
+function useOverlayWithHandlers(
+  layers: MapGeoJson[],
+  handlers?: OverlayHandlers,
 ): MapGeoJson[] {
   return useMemo(() => {
-    if (!handlers) return intersections;
+    if (!handlers) return layers;
 
-    return intersections.map((intersection) => ({
-      ...intersection,
+    return layers.map((layer) => ({
+      ...layer,
       eventHandlers: {
         click: (e: LeafletEvent) => {
-          handlers.click?.(e);
+          handleLayerClick(e, () => handlers.click?.(layer, e));
         },
       },
     }));
-  }, [intersections, handlers]);
+  }, [layers, handlers]);
+}
+
+const PREVIEW_DEBOUNCE = 300; // ms
+
+interface DragPreview {
+  item: ConfigItem;
+  // Under the pointer, for drawing
+  live: IsochronesResponse;
+  liveKey: string;
+  // Where the pointer last rested, for overlays, which take longer
+  source?: PreviewSource;
+}
+
+// A dragged marker's isochrones, moved along with it. The polygon it already
+// has is translated straight away; once the pointer rests, the real one for
+// the new spot is fetched and translated from then on. A request the marker
+// has moved on from is aborted.
+function useDragPreview(
+  config: ConfigItem[],
+  drag: MarkerDrag | null,
+  enabled: boolean,
+): DragPreview | null {
+  const queryClient = useQueryClient();
+  const item =
+    enabled && drag ? config.find((item) => item.id === drag.id) : undefined;
+  const [rested] = useDebounceValue(drag, PREVIEW_DEBOUNCE);
+  // Not where the last drag, maybe of another marker, came to rest
+  const location = rested?.id === drag?.id ? rested?.to : undefined;
+
+  const fetched = useQueries({
+    queries: (item && location ? [{ ...item, location }] : []).map((moved) => ({
+      ...createIsochroneQueryOptions(moved),
+      placeholderData: keepPreviousData,
+    })),
+    combine: (results) => results[0],
+  });
+  const cachedKey = item && createIsochroneQueryOptions(item).queryKey;
+  const cached =
+    cachedKey && queryClient.getQueryState<IsochronesResponse>(cachedKey);
+  const data = fetched?.data ?? cached?.data;
+  const dataUpdatedAt = fetched?.data
+    ? fetched.dataUpdatedAt
+    : (cached?.dataUpdatedAt ?? 0);
+
+  const feature = useMemo(
+    () =>
+      data &&
+      location &&
+      getOuterFeature(translateIsochrones(data, [location]).features),
+    [data, location],
+  );
+
+  if (!item || !drag || !data) return null;
+  return {
+    item,
+    live: translateIsochrones(data, [drag.to]),
+    liveKey: getIsochronesKey({ ...item, location: drag.to }, dataUpdatedAt),
+    source:
+      feature && location
+        ? {
+            source: { id: item.id, feature },
+            key: `preview:${getIsochronesKey({ ...item, location }, dataUpdatedAt)}`,
+          }
+        : undefined,
+  };
+}
+
+// The preview's bands, outlined so they read as not yet placed
+function usePreviewGeoJson(
+  preview: DragPreview | null,
+  colors: Record<string, string>,
+): MapGeoJson[] {
+  if (!preview) return [];
+
+  const { item, live, liveKey } = preview;
+  const location = live.metadata.query.locations[0]!;
+  return live.features.map((feature) => ({
+    key: `preview-${item.id}-${location.join(",")}-${feature.properties.value}`,
+    data: feature,
+    dataKey: `preview:${liveKey}:${feature.properties.value}`,
+    style: {
+      color: getMarkerColor(item, colors),
+      weight: 2,
+      dashArray: "6, 4",
+      opacity: 0.9,
+      fillOpacity: 0.05,
+    },
+  }));
 }
 
 export function useMap(
@@ -267,12 +876,26 @@ export function useMap(
     map?: MapHandlers;
     isochrone?: IsochroneHandlers;
     intersection?: IntersectionHandlers;
+    union?: OverlayHandlers;
+    difference?: OverlayHandlers;
+    coverage?: OverlayHandlers;
+  },
+  options?: {
+    overlay?: OverlayOptions;
+    // The view the page opened with, if its link had one
+    view?: MapView;
+    // Redraw a dragged marker's isochrones and overlaps as it moves
+    preview?: boolean;
   },
-): MapProps {
-  const [polyline, setPolyline] = useState<{
-    from: [number, number];
-    to: [number, number];
-  } | null>(null);
+): MapProps & { overlay: MapOverlay } {
+  const overlay = useMemo(
+    () => options?.overlay ?? { mode: "pairwise" as const },
+    [options?.overlay],
+  );
+
+  const [drag, setDrag] = useState<MarkerDrag | null>(null);
+  // The map keeps track of its own view once it's open
+  const [initialView] = useState(options?.view);
 
   const markerHandlers: MarkerHandlers = useMemo(
     () => ({
@@ -281,16 +904,16 @@ export function useMap(
       },
       dragstart: (id: string, e: LeafletEvent) => {
         const { lat, lng } = e.target.getLatLng();
-        setPolyline({ from: [lng, lat], to: [lng, lat] });
+        setDrag({ id, from: [lng, lat], to: [lng, lat] });
         handlers?.marker?.dragstart?.(id, e);
       },
       drag: (id: string, e: LeafletEvent) => {
         const { lat, lng } = e.target.getLatLng();
-        setPolyline((prev) => (prev ? { ...prev, to: [lng, lat] } : null));
+        setDrag((prev) => (prev ? { ...prev, to: [lng, lat] } : null));
         handlers?.marker?.drag?.(id, e);
       },
       dragend: (id: string, e: LeafletEvent) => {
-        setPolyline(null);
+        setDrag(null);
         handlers?.marker?.dragend?.(id, e);
       },
     }),
@@ -299,35 +922,49 @@ export function useMap(
 
   const isochroneHandlers: IsochroneHandlers = useMemo(
     () => ({
-      click: (e: LeafletEvent) => {
-        handlers?.isochrone?.click?.(e);
+      click: (geojson: MapGeoJson, e: LeafletEvent) => {
+        handlers?.isochrone?.click?.(geojson, e);
       },
     }),
     [handlers?.isochrone],
   );
 
-  const intersectionHandlers: IntersectionHandlers = useMemo(
+  // Pairwise and common areas are both intersections
+  const overlayHandler =
+    overlay.mode === "pairwise" || overlay.mode === "common"
+      ? handlers?.intersection
+      : handlers?.[overlay.mode];
+  const overlayHandlers: OverlayHandlers = useMemo(
     () => ({
-      click: (e: LeafletEvent) => {
-        handlers?.intersection?.click?.(e);
+      click: (geojson: MapGeoJson, e: LeafletEvent) => {
+        overlayHandler?.click?.(geojson, e);
       },
     }),
-    [handlers?.intersection],
+    [overlayHandler],
   );
 
-  const markers = useMarkers(config);
+  // Hidden markers only show up in the marker list
+  const visible = useMemo(
+    () => config.filter((item) => !item.hidden),
+    [config],
+  );
+
+  const colors = useProfileColors();
+  const errors = useIsochroneErrors(visible);
+  const markers = useMarkers(visible, colors, errors);
   const markersWithHandlers = useMarkersWithHandlers(markers, markerHandlers);
-  const geojson = useGeoJson(config);
+  const geojson = useGeoJson(visible, colors);
   const geojsonWithHandlers = useGeoJsonWithHandlers(
     geojson,
     isochroneHandlers,
   );
-  const intersections = useIntersections(config);
-  const intersectionsWithHandlers = useIntersectionsWithHandlers(
-    intersections,
-    intersectionHandlers,
-  );
-  const polylines = usePolylines(polyline);
+  const preview = useDragPreview(visible, drag, options?.preview ?? false);
+  const previewGeoJson = usePreviewGeoJson(preview, colors);
+  const { layers, summary } = useOverlay(visible, overlay, preview?.source);
+  const layersWithHandlers = useOverlayWithHandlers(layers, overlayHandlers);
+  const polylines = usePolylines(drag);
+  const legend = useLegend(visible, colors);
+  const { bounds, pending: boundsPending } = useBounds(visible);
 
   const mapHandlers: MapHandlers = handlers?.map?.click
     ? { click: handlers.map.click }
@@ -337,8 +974,14 @@ export function useMap(
     handlers: mapHandlers,
     markers: markersWithHandlers,
     polylines,
-    geojson: [...geojsonWithHandlers, ...intersectionsWithHandlers],
-    center: MAP_DEFAULT_CENTER,
-    zoom: MAP_DEFAULT_ZOOM,
+    geojson: [...geojsonWithHandlers, ...layersWithHandlers, ...previewGeoJson],
+    legend,
+    overlay: summary,
+    pending: summary.pending,
+    center: initialView?.center ?? MAP_DEFAULT_CENTER,
+    zoom: initialView?.zoom ?? MAP_DEFAULT_ZOOM,
+    bounds,
+    autoFit: !initialView,
+    boundsPending,
   };
 }
@@ -0,0 +1,21 @@
+import { profilesQueryOptions } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+
+export const DEFAULT_PROFILE_COLOR = "#6b7280";
+
+export function useProfiles() {
+  const { data } = useQuery(profilesQueryOptions);
+  return data ?? [];
+}
+
+export function useProfileColors(): Record<string, string> {
+  const profiles = useProfiles();
+  return useMemo(
+    () =>
+      Object.fromEntries(
+        profiles.map((profile) => [profile.id, profile.color]),
+      ),
+    [profiles],
+  );
+}
@@ -0,0 +1,129 @@
+import {
+  ApiRequestError,
+  createScenario,
+  deleteScenario,
+  fetchScenario,
+  scenarioQueryOptions,
+  updateScenario,
+} from "@/lib/api";
+import { getCopyName } from "@/lib/utils";
+import type { Scenario } from "@server/scenarios";
+import { SCENARIO_NAME_MAX_LENGTH } from "@server/schemas/scenarios";
+import { useMutation, useQueries, useQueryClient } from "@tanstack/react-query";
+import { useLocalStorage } from "usehooks-ts";
+
+// Scenarios this browser created, with the tokens that allow changing them
+interface OwnedScenario {
+  id: string;
+  token: string;
+}
+
+export interface SavedScenario {
+  id: string;
+  scenario?: Scenario;
+  // Deleted elsewhere, or never made it to this server
+  missing: boolean;
+  pending: boolean;
+}
+
+const STORAGE_KEY = "saved-scenarios";
+
+export const getScenarioUrl = (id: string) =>
+  `${window.location.origin}/s/${id}`;
+
+export function useSavedScenarios() {
+  const queryClient = useQueryClient();
+  const [owned, setOwned] = useLocalStorage<OwnedScenario[]>(STORAGE_KEY, []);
+
+  const scenarios = useQueries({
+    queries: owned.map(({ id }) => scenarioQueryOptions(id)),
+    combine: (results) =>
+      results.map(
+        (result, index): SavedScenario => ({
+          id: owned[index]!.id,
+          scenario: result.data,
+          missing:
+            result.error instanceof ApiRequestError &&
+            result.error.status === 404,
+          pending: result.isPending,
+        }),
+      ),
+  });
+
+  const getToken = (id: string) => {
+    const token = owned.find((scenario) => scenario.id === id)?.token;
+    if (!token) throw new Error("This scenario was saved in another browser");
+    return token;
+  };
+
+  const remember = ({ token, ...scenario }: Scenario & { token: string }) => {
+    queryClient.setQueryData(
+      scenarioQueryOptions(scenario.id).queryKey,
+      scenario,
+    );
+    setOwned((previous) => [{ id: scenario.id, token }, ...previous]);
+    return scenario;
+  };
+
+  const forget = (id: string) => {
+    setOwned((previous) => previous.filter((scenario) => scenario.id !== id));
+    queryClient.removeQueries({ queryKey: scenarioQueryOptions(id).queryKey });
+  };
+
+  const save = useMutation({
+    mutationFn: async (scenario: { name: string; config: string }) =>
+      remember(await createScenario(scenario)),
+  });
+
+  const update = useMutation({
+    mutationFn: ({
+      id,
+      ...changes
+    }: {
+      id: string;
+      name?: string;
+      config?: string;
+    }) => updateScenario(id, getToken(id), changes),
+    onSuccess: (scenario) =>
+      queryClient.setQueryData(
+        scenarioQueryOptions(scenario.id).queryKey,
+        scenario,
+      ),
+  });
+
+  const duplicate = useMutation({
+    mutationFn: async (id: string) => {
+      const { name, config } = await fetchScenario(id);
+      return remember(
+        await createScenario({
+          name: getCopyName(name, SCENARIO_NAME_MAX_LENGTH),
+          config,
+        }),
+      );
+    },
+  });
+
+  // Scenarios that are already gone only need forgetting
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        await deleteScenario(id, getToken(id));
+      } catch (error) {
+        if (!(error instanceof ApiRequestError && error.status === 404)) {
+          throw error;
+        }
+      }
+      return id;
+    },
+    onSuccess: forget,
+  });
+
+  return {
+    scenarios,
+    isOwned: (id: string) => owned.some((scenario) => scenario.id === id),
+    save,
+    update,
+    duplicate,
+    remove,
+  };
+}
@@ -1,29 +1,291 @@
 import type { IsochronesRoutes } from "@server/app";
+import type { ApiError, ErrorEnvelope } from "@server/errors";
+import type { Profile } from "@server/profiles";
+import {
+  BATCH_MAX_ITEMS,
+  type IsochronesResponse,
+} from "@server/schemas/isochrones";
+import {
+  DEFAULT_SNAP_METERS,
+  snapCoordinate,
+  translateIsochrones,
+} from "@server/snap";
 import { hc } from "hono/client";
+import type { RangeType, Units } from "./ranges";
 
 const client = hc<IsochronesRoutes>("/");
 
 export const api = client.api;
 
+export class ApiRequestError extends Error {
+  readonly status: number;
+  readonly code: ApiError["code"];
+  readonly retryable: boolean;
+  readonly retryAfter?: number;
+  readonly details?: unknown;
+
+  constructor(error: ApiError, status: number) {
+    super(error.message);
+    this.name = "ApiRequestError";
+    this.status = status;
+    this.code = error.code;
+    this.retryable = error.retryable;
+    this.retryAfter = error.retryAfter;
+    this.details = error.details;
+  }
+}
+
+// Reads the error envelope from a failed response, falling back to the status
+const toRequestError = async (response: {
+  status: number;
+  json: () => Promise<unknown>;
+}) => {
+  const body = (await response
+    .json()
+    .catch(() => null)) as Partial<ErrorEnvelope> | null;
+  return new ApiRequestError(
+    body?.error ?? {
+      code: "internal_error",
+      message: `API error: ${response.status}`,
+      retryable: response.status >= 500,
+    },
+    response.status,
+  );
+};
+
+// Only retry what the server says can succeed, waiting as long as it asks
+const retry = (failureCount: number, error: Error) =>
+  failureCount < 3 && (!(error instanceof ApiRequestError) || error.retryable);
+
+const retryDelay = (attempt: number, error: Error) =>
+  error instanceof ApiRequestError && error.retryAfter
+    ? error.retryAfter * 1000
+    : Math.min(1000 * 2 ** attempt, 30 * 1000);
+
 export interface ConfigItem {
   id: string;
   location: [number, number];
-  transport: "driving-car" | "cycling-regular" | "foot-walking";
-  range: number;
+  transport: Profile;
+  ranges: [number, ...number[]];
+  rangeType: RangeType;
+  units: Units;
 }
 
-export const createIsochroneQueryOptions = (item: ConfigItem) => ({
-  queryKey: ["isochrones", item.id, item.location, item.transport, item.range],
-  queryFn: async () => {
-    const response = await api.isochrones[item.transport].$post({
+const SNAP_METERS = import.meta.env.VITE_SNAP_METERS
+  ? Number(import.meta.env.VITE_SNAP_METERS)
+  : DEFAULT_SNAP_METERS;
+
+interface BatchEntry {
+  item: ConfigItem;
+  resolve: (data: IsochronesResponse) => void;
+  reject: (error: Error) => void;
+}
+
+let pendingBatch: BatchEntry[] = [];
+
+const sendBatch = async (entries: BatchEntry[]) => {
+  try {
+    const response = await api.isochrones.batch.$post({
       json: {
-        locations: [item.location],
-        range: [item.range],
-        id: item.id,
+        items: entries.map(({ item }) => ({
+          id: item.id,
+          location: item.location,
+          profile: item.transport,
+          ranges: item.ranges,
+          range_type: item.rangeType,
+        })),
       },
     });
-    if (!response.ok) throw new Error(`API error: ${response.status}`);
+    if (!response.ok) throw await toRequestError(response);
+
+    const { results } = await response.json();
+    entries.forEach((entry, index) => {
+      const result = results[index];
+      if (result?.ok) {
+        entry.resolve(result.data as IsochronesResponse);
+      } else {
+        entry.reject(
+          result
+            ? new ApiRequestError(result.error, result.status)
+            : new Error("Missing batch result"),
+        );
+      }
+    });
+  } catch (error) {
+    entries.forEach((entry) => entry.reject(error as Error));
+  }
+};
+
+const flushBatch = () => {
+  const entries = pendingBatch;
+  pendingBatch = [];
+  for (let i = 0; i < entries.length; i += BATCH_MAX_ITEMS) {
+    sendBatch(entries.slice(i, i + BATCH_MAX_ITEMS));
+  }
+};
+
+// Queries that start in the same tick are sent together as one batch request
+const fetchIsochronesBatched = (item: ConfigItem) =>
+  new Promise<IsochronesResponse>((resolve, reject) => {
+    if (pendingBatch.length === 0) setTimeout(flushBatch, 0);
+    pendingBatch.push({ item, resolve, reject });
+  });
+
+// The key uses the snapped location so small drags reuse the cached polygon,
+// which `select` then moves onto the marker's exact location
+export const createIsochroneQueryOptions = (
+  item: ConfigItem,
+  { batch = false }: { batch?: boolean } = {},
+) => ({
+  queryKey: [
+    "isochrones",
+    item.id,
+    snapCoordinate(item.location, SNAP_METERS),
+    item.transport,
+    item.rangeType,
+    item.ranges,
+  ],
+  // The signal aborts the request once nothing is waiting on it, such as a
+  // drag preview the marker has already moved on from. Batched requests are
+  // shared, so they always run to the end.
+  queryFn: async ({
+    signal,
+  }: {
+    signal: AbortSignal;
+  }): Promise<IsochronesResponse> => {
+    if (batch) return fetchIsochronesBatched(item);
+
+    const response = await api.isochrones[":profile"].$post(
+      {
+        param: { profile: item.transport },
+        json: {
+          locations: [item.location],
+          range: item.ranges,
+          range_type: item.rangeType,
+          id: item.id,
+        },
+      },
+      { init: { signal } },
+    );
+    if (!response.ok) throw await toRequestError(response);
+
+    return response.json();
+  },
+  select: (data: IsochronesResponse) =>
+    translateIsochrones(data, [item.location]),
+  retry,
+  retryDelay,
+});
+
+export const profilesQueryOptions = {
+  queryKey: ["profiles"],
+  queryFn: async () => {
+    const response = await api.profiles.$get();
+    if (!response.ok) throw await toRequestError(response);
+
+    return response.json();
+  },
+  staleTime: Infinity,
+};
+
+export const basemapsQueryOptions = {
+  queryKey: ["basemaps"],
+  queryFn: async () => {
+    const response = await api.basemaps.$get();
+    if (!response.ok) throw await toRequestError(response);
 
     return response.json();
   },
+  staleTime: Infinity,
+};
+
+export const quotaQueryOptions = {
+  queryKey: ["quota"],
+  queryFn: async () => {
+    const response = await api.quota.$get();
+    if (!response.ok) throw await toRequestError(response);
+
+    return response.json();
+  },
+  refetchInterval: 30 * 1000,
+};
+
+export const geocodeQueryOptions = (q: string) => ({
+  queryKey: ["geocode", q],
+  queryFn: async () => {
+    const response = await api.geocode.$get({ query: { q } });
+    if (!response.ok) throw await toRequestError(response);
+
+    return response.json();
+  },
+  staleTime: 60 * 60 * 1000,
+  retry,
+  retryDelay,
+});
+
+// Rounded like the server's cache key, so a marker that hasn't moved is
+// looked up once
+export const reverseGeocodeQueryOptions = ([lon, lat]: [number, number]) => {
+  const location = [Number(lon.toFixed(5)), Number(lat.toFixed(5))] as const;
+  return {
+    queryKey: ["reverse-geocode", location],
+    queryFn: async () => {
+      const response = await api.geocode.reverse.$get({
+        query: { lat: String(location[1]), lon: String(location[0]) },
+      });
+      if (!response.ok) throw await toRequestError(response);
+
+      return response.json();
+    },
+    staleTime: Infinity,
+    retry,
+    retryDelay,
+  };
+};
+
+export const fetchScenario = async (id: string) => {
+  const response = await api.scenarios[":id"].$get({ param: { id } });
+  if (!response.ok) throw await toRequestError(response);
+
+  return response.json();
+};
+
+export const scenarioQueryOptions = (id: string) => ({
+  queryKey: ["scenarios", id],
+  queryFn: () => fetchScenario(id),
+  retry,
+  retryDelay,
 });
+
+export const createScenario = async (json: {
+  name: string;
+  config: string;
+}) => {
+  const response = await api.scenarios.$post({ json });
+  if (!response.ok) throw await toRequestError(response);
+
+  return response.json();
+};
+
+// Changes need the token the scenario was created with
+export const updateScenario = async (
+  id: string,
+  token: string,
+  json: { name?: string; config?: string },
+) => {
+  const response = await api.scenarios[":id"].$patch(
+    { param: { id }, json },
+    { headers: { Authorization: `Bearer ${token}` } },
+  );
+  if (!response.ok) throw await toRequestError(response);
+
+  return response.json();
+};
+
+export const deleteScenario = async (id: string, token: string) => {
+  const response = await api.scenarios[":id"].$delete(
+    { param: { id } },
+    { headers: { Authorization: `Bearer ${token}` } },
+  );
+  if (!response.ok) throw await toRequestError(response);
+};
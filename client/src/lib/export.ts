@@ -0,0 +1,80 @@
+import type { ConfigItem } from "@/hooks/use-config";
+import type { MapGeoJson, OverlayMode } from "@/hooks/use-map";
+import type { OverlayPolygon } from "@/lib/overlays";
+import {
+  type ExportFile,
+  type ExportFormat,
+  type ExportGeometry,
+  featureCollection,
+  isochroneFeature,
+  markerFeature,
+  overlayFeature,
+} from "@server/export";
+import type { Feature } from "@server/schemas/isochrones";
+
+export { encodeExport } from "@server/export";
+export type { ExportFormat } from "@server/export";
+
+const overlayKinds: Record<OverlayMode, string> = {
+  pairwise: "intersection",
+  common: "common_area",
+  union: "union",
+  difference: "difference",
+  coverage: "coverage",
+};
+
+// Markers plus every isochrone and overlay currently drawn on the map
+export function buildExportCollection(
+  config: ConfigItem[],
+  layers: MapGeoJson[],
+) {
+  const names = Object.fromEntries(config.map((item) => [item.id, item.name]));
+
+  return featureCollection([
+    ...config.map(markerFeature),
+    ...layers.flatMap((layer) => {
+      const info = layer.info;
+      if (info?.kind === "isochrone") {
+        return [
+          isochroneFeature(
+            {
+              id: info.markerId,
+              transport: info.transport,
+              rangeType: info.rangeType,
+              name: names[info.markerId],
+            },
+            layer.data as Feature,
+          ),
+        ];
+      }
+      if (info?.kind === "overlay") {
+        return [
+          overlayFeature(
+            overlayKinds[info.mode],
+            info.markerIds,
+            (layer.data as OverlayPolygon).geometry as ExportGeometry,
+            info.count ? { count: info.count } : {},
+          ),
+        ];
+      }
+      return [];
+    }),
+  ]);
+}
+
+export function downloadFile(file: ExportFile, name = "isochrones") {
+  const url = URL.createObjectURL(
+    new Blob([file.body], { type: file.contentType }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${name}.${file.extension}`;
+  link.click();
+  // Firefox and Safari read the blob after click() returns, so revoking it
+  // straight away can cancel the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// The server-side equivalent, for scripts
+export const getExportUrl = (config: string, format: ExportFormat) =>
+  `${window.location.origin}/api/isochrones/export?${new URLSearchParams({ config, format })}`;
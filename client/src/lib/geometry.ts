@@ -0,0 +1,86 @@
+import { queryOptions, skipToken } from "@tanstack/react-query";
+import {
+  type GeometryRequest,
+  type GeometryResponse,
+  type GeometryResult,
+  type GeometryTask,
+  runGeometryTask,
+} from "./overlays";
+
+interface PendingTask {
+  resolve: (result: GeometryResponse & { ok: true }) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, PendingTask>();
+
+function rejectPending(error: Error) {
+  pending.forEach((task) => task.reject(error));
+  pending.clear();
+}
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(
+    new URL("../workers/geometry.worker.ts", import.meta.url),
+    { type: "module" },
+  );
+  worker.onmessage = (event: MessageEvent<GeometryResponse>) => {
+    const response = event.data;
+    const task = pending.get(response.id);
+    if (!task) return;
+
+    pending.delete(response.id);
+    if (response.ok) {
+      task.resolve(response);
+    } else {
+      task.reject(new Error(response.error));
+    }
+  };
+  // A crashed worker is replaced on the next task
+  worker.onerror = (event) => {
+    event.preventDefault();
+    worker?.terminate();
+    worker = null;
+    rejectPending(new Error(event.message || "Geometry worker failed"));
+  };
+
+  return worker;
+}
+
+export async function runGeometry<T extends GeometryTask>(
+  task: T,
+): Promise<GeometryResult<T>> {
+  // Old browsers without module workers compute inline
+  if (typeof Worker === "undefined") return runGeometryTask(task);
+
+  const response = await new Promise<GeometryResponse & { ok: true }>(
+    (resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      getWorker().postMessage({ id, task } satisfies GeometryRequest);
+    },
+  );
+  return response.result as GeometryResult<T>;
+}
+
+// Results are memoised in the query cache by `inputKey`, which names the
+// task's inputs without serialising them (marker ids and when their
+// isochrones loaded, say), so re-renders with the same isochrones never
+// recompute. A null task is idle.
+export const geometryQueryOptions = <T extends GeometryTask>(
+  task: T | null,
+  inputKey: string,
+) =>
+  queryOptions({
+    queryKey: ["geometry", task?.type, inputKey],
+    queryFn: task ? () => runGeometry(task) : skipToken,
+    staleTime: Infinity,
+    gcTime: 5 * 60 * 1000,
+    retry: false,
+    // Results are large GeoJSON; comparing them buys nothing
+    structuralSharing: false,
+  });
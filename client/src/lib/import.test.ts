@@ -0,0 +1,162 @@
+import { parseImportFile, toImportRows } from "@/lib/import";
+import { describe, expect, test } from "vitest";
+
+const defaults = { transport: "driving-car", range: 15 };
+const profiles = ["driving-car", "foot-walking"];
+
+const importCsv = (text: string) =>
+  toImportRows(
+    parseImportFile("markers.csv", text).records,
+    defaults,
+    profiles,
+  );
+
+describe("parseImportFile", () => {
+  test("rejects a CSV without coordinate columns", () => {
+    expect(() => parseImportFile("markers.csv", "name,notes\nA,B")).toThrow(
+      "The CSV needs latitude and longitude columns",
+    );
+  });
+
+  test("rejects GeoJSON that doesn't parse or has no features", () => {
+    expect(() => parseImportFile("markers.geojson", "{ nope")).toThrow(
+      SyntaxError,
+    );
+    expect(() =>
+      parseImportFile(
+        "markers.geojson",
+        '{ "type": "FeatureCollection", "features": [] }',
+      ),
+    ).toThrow("No features found in the GeoJSON");
+    expect(() => parseImportFile("markers.json", "[1, 2]")).toThrow(
+      "No features found in the GeoJSON",
+    );
+  });
+
+  test("skips GeoJSON features that aren't points", () => {
+    const parsed = parseImportFile(
+      "markers.geojson",
+      JSON.stringify({
+        type: "FeatureCollection",
+        features: [
+          {
+            type: "Feature",
+            geometry: { type: "Point", coordinates: [8.68, 49.41] },
+            properties: { name: "Office" },
+          },
+          {
+            type: "Feature",
+            geometry: {
+              type: "LineString",
+              coordinates: [
+                [0, 0],
+                [1, 1],
+              ],
+            },
+            properties: {},
+          },
+          null,
+        ],
+      }),
+    );
+
+    expect(parsed.skipped).toBe(2);
+    expect(parsed.records).toEqual([
+      { row: 1, name: "Office", lon: 8.68, lat: 49.41 },
+    ]);
+  });
+
+  test("detects the delimiter and keeps quoted fields together", () => {
+    const { records } = parseImportFile(
+      "markers.txt",
+      'lat;lon;name;notes\n49.41;8.68;"Office; main";"Says ""hi""\non two lines"',
+    );
+
+    expect(records).toEqual([
+      {
+        row: 2,
+        lat: 49.41,
+        lon: 8.68,
+        name: "Office; main",
+        notes: 'Says "hi"\non two lines',
+      },
+    ]);
+  });
+});
+
+describe("toImportRows", () => {
+  test("turns a valid row into a marker with the defaults filled in", () => {
+    const [row] = importCsv("latitude,longitude,name\n49.41,8.68,Office");
+
+    expect(row?.errors).toEqual([]);
+    expect(row?.item).toMatchObject({
+      location: [8.68, 49.41],
+      transport: "driving-car",
+      ranges: [900],
+      rangeType: "time",
+      units: "km",
+      name: "Office",
+    });
+  });
+
+  test("reports missing and out-of-range coordinates by row", () => {
+    const rows = importCsv("lat,lon\n,8.68\n49.41,abc\n91,181\n-90,-180");
+
+    expect(rows.map(({ row, errors }) => ({ row, errors }))).toEqual([
+      { row: 2, errors: ["Missing or invalid latitude"] },
+      { row: 3, errors: ["Missing or invalid longitude"] },
+      {
+        row: 4,
+        errors: [
+          "Latitude must be between -90 and 90",
+          "Longitude must be between -180 and 180",
+        ],
+      },
+      { row: 5, errors: [] },
+    ]);
+    expect(rows.map((row) => row.item === undefined)).toEqual([
+      true,
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  test("rejects unknown travel profiles", () => {
+    const [row] = importCsv("lat,lon,transport\n49.41,8.68,teleport");
+
+    expect(row?.item).toBeUndefined();
+    expect(row?.errors).toEqual(['Unknown travel profile "teleport"']);
+  });
+
+  test("reports invalid fields with their names", () => {
+    const rows = importCsv(
+      [
+        "lat,lon,color,range,range_type,units",
+        "49.41,8.68,red,10,time,km",
+        "49.41,8.68,,0,time,km",
+        "49.41,8.68,,10,speed,km",
+        "49.41,8.68,,10,distance,parsecs",
+      ].join("\n"),
+    );
+
+    expect(rows.map((row) => row.item)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+    ]);
+    ["color", "ranges.0", "rangeType", "units"].forEach((field, index) =>
+      expect(rows[index]?.errors).toContainEqual(
+        expect.stringMatching(new RegExp(`^${field}: `)),
+      ),
+    );
+  });
+
+  test("truncates overlong names instead of rejecting them", () => {
+    const [row] = importCsv(`lat,lon,name\n49.41,8.68,${"x".repeat(500)}`);
+
+    expect(row?.errors).toEqual([]);
+    expect(row?.item?.name?.length).toBeLessThan(500);
+  });
+});
@@ -0,0 +1,362 @@
+import {
+  type ConfigItem,
+  configItemSchema,
+  MARKER_NAME_MAX_LENGTH,
+  MARKER_NOTES_MAX_LENGTH,
+} from "@/hooks/use-config";
+import { type RangeType, toRangeValue, type Units } from "@/lib/ranges";
+import { generateId } from "@/lib/utils";
+
+export type ImportFormat = "csv" | "geojson" | "kml";
+
+// A marker as read from the file, before defaults and validation
+export interface ImportRecord {
+  row: number; // 1-based line, feature or placemark number
+  name?: string;
+  notes?: string;
+  color?: string;
+  lat?: number;
+  lon?: number;
+  transport?: string;
+  // In the dialog's units: minutes, kilometres or miles
+  range?: number[];
+  // Already in seconds or metres, as the export writes them
+  ranges?: number[];
+  rangeType?: string;
+  units?: string;
+}
+
+export interface ImportRow {
+  row: number;
+  name?: string;
+  item?: ConfigItem;
+  errors: string[];
+}
+
+export interface ImportDefaults {
+  transport: string;
+  range: number; // minutes
+}
+
+export interface ParsedImport {
+  format: ImportFormat;
+  records: ImportRecord[];
+  // Lines, polygons and other features that can't become markers
+  skipped: number;
+}
+
+const columnAliases: Record<string, keyof ImportRecord> = {
+  lat: "lat",
+  latitude: "lat",
+  y: "lat",
+  lon: "lon",
+  lng: "lon",
+  long: "lon",
+  longitude: "lon",
+  x: "lon",
+  name: "name",
+  title: "name",
+  label: "name",
+  notes: "notes",
+  description: "notes",
+  color: "color",
+  colour: "color",
+  transport: "transport",
+  profile: "transport",
+  mode: "transport",
+  range: "range",
+  minutes: "range",
+  ranges: "ranges",
+  range_type: "rangeType",
+  rangetype: "rangeType",
+  units: "units",
+};
+
+const parseNumber = (value: unknown) => {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  const number = Number(value.trim());
+  return Number.isFinite(number) ? number : NaN;
+};
+
+// "5;10;15", "5,10", [5, 10] or 5
+const parseNumberList = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return undefined;
+  const values = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(/[;,|]/)
+      : [value];
+  return values.map(parseNumber).filter((number) => number !== undefined);
+};
+
+const parseString = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+
+function toRecord(row: number, fields: Record<string, unknown>): ImportRecord {
+  const record: ImportRecord = { row };
+  for (const [key, value] of Object.entries(fields)) {
+    const field = columnAliases[key.trim().toLowerCase()];
+    switch (field) {
+      case "lat":
+      case "lon":
+        record[field] = parseNumber(value);
+        break;
+      case "range":
+      case "ranges":
+        record[field] = parseNumberList(value);
+        break;
+      case "name":
+      case "notes":
+      case "color":
+      case "transport":
+      case "rangeType":
+      case "units":
+        record[field] = parseString(value);
+        break;
+    }
+  }
+  return record;
+}
+
+// RFC 4180 fields: quoted values may hold delimiters, quotes and newlines
+function splitCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+function parseCsv(text: string): ParsedImport {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best,
+  );
+
+  const [header = [], ...rows] = splitCsv(
+    text.replace(/^\uFEFF/, ""),
+    delimiter,
+  );
+  const columns = header.map(
+    (column) => columnAliases[column.trim().toLowerCase()],
+  );
+  if (!columns.includes("lat") || !columns.includes("lon")) {
+    throw new Error("The CSV needs latitude and longitude columns");
+  }
+
+  const records = rows.map((cells, index) =>
+    toRecord(
+      index + 2, // the header is line 1
+      Object.fromEntries(header.map((column, i) => [column, cells[i]])),
+    ),
+  );
+
+  return { format: "csv", records, skipped: 0 };
+}
+
+function parseGeoJson(text: string): ParsedImport {
+  const json = JSON.parse(text);
+  const features: unknown[] =
+    json?.type === "FeatureCollection"
+      ? json.features
+      : json?.type === "Feature"
+        ? [json]
+        : [];
+  if (!Array.isArray(features) || features.length === 0) {
+    throw new Error("No features found in the GeoJSON");
+  }
+
+  let skipped = 0;
+  const records = features.flatMap((feature, index) => {
+    const { geometry, properties } = (feature ?? {}) as {
+      geometry?: { type?: string; coordinates?: unknown[] };
+      properties?: Record<string, unknown> | null;
+    };
+    if (geometry?.type !== "Point") {
+      skipped++;
+      return [];
+    }
+
+    const [lon, lat] = geometry.coordinates ?? [];
+    return [
+      {
+        ...toRecord(index + 1, { ...properties }),
+        lon: parseNumber(lon),
+        lat: parseNumber(lat),
+      },
+    ];
+  });
+
+  return { format: "geojson", records, skipped };
+}
+
+function parseKml(text: string): ParsedImport {
+  const document = new DOMParser().parseFromString(text, "application/xml");
+  if (document.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The KML file is not valid XML");
+  }
+
+  let skipped = 0;
+  const placemarks = Array.from(document.getElementsByTagName("Placemark"));
+  const records = placemarks.flatMap((placemark, index) => {
+    const point = placemark.getElementsByTagName("Point")[0];
+    const coordinates = point
+      ?.getElementsByTagName("coordinates")[0]
+      ?.textContent?.trim();
+    if (!coordinates) {
+      skipped++;
+      return [];
+    }
+
+    const data = Object.fromEntries(
+      Array.from(placemark.getElementsByTagName("Data")).map((element) => [
+        element.getAttribute("name") ?? "",
+        element.getElementsByTagName("value")[0]?.textContent ?? "",
+      ]),
+    );
+    const name = placemark.getElementsByTagName("name")[0]?.textContent;
+    const [lon, lat] = coordinates.split(",");
+
+    return [
+      {
+        ...toRecord(index + 1, { ...data, name: name ?? data.name }),
+        lon: parseNumber(lon),
+        lat: parseNumber(lat),
+      },
+    ];
+  });
+
+  if (placemarks.length === 0) {
+    throw new Error("No placemarks found in the KML");
+  }
+
+  return { format: "kml", records, skipped };
+}
+
+const detectFormat = (fileName: string, text: string): ImportFormat => {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "kml") return "kml";
+  if (extension === "geojson" || extension === "json") return "geojson";
+  if (extension === "csv" || extension === "tsv" || extension === "txt") {
+    return "csv";
+  }
+
+  const start = text.trimStart();
+  return start.startsWith("<")
+    ? "kml"
+    : start.startsWith("{")
+      ? "geojson"
+      : "csv";
+};
+
+// Throws when the file as a whole can't be read; problems with single
+// markers are reported per row by `toImportRows`
+export function parseImportFile(fileName: string, text: string): ParsedImport {
+  switch (detectFormat(fileName, text)) {
+    case "csv":
+      return parseCsv(text);
+    case "geojson":
+      return parseGeoJson(text);
+    case "kml":
+      return parseKml(text);
+  }
+}
+
+export function toImportRows(
+  records: ImportRecord[],
+  defaults: ImportDefaults,
+  profiles: string[],
+): ImportRow[] {
+  return records.map((record) => {
+    const errors: string[] = [];
+
+    if (record.lat === undefined || Number.isNaN(record.lat)) {
+      errors.push("Missing or invalid latitude");
+    } else if (Math.abs(record.lat) > 90) {
+      errors.push("Latitude must be between -90 and 90");
+    }
+    if (record.lon === undefined || Number.isNaN(record.lon)) {
+      errors.push("Missing or invalid longitude");
+    } else if (Math.abs(record.lon) > 180) {
+      errors.push("Longitude must be between -180 and 180");
+    }
+
+    const transport = record.transport ?? defaults.transport;
+    const unknownProfile = profiles.length > 0 && !profiles.includes(transport);
+    if (unknownProfile) {
+      errors.push(`Unknown travel profile "${transport}"`);
+    }
+
+    const rangeType = (record.rangeType ?? "time") as RangeType;
+    const units = (record.units ?? "km") as Units;
+    const ranges =
+      record.ranges ??
+      (record.range ?? [defaults.range]).map((value) =>
+        toRangeValue(value, rangeType, units),
+      );
+
+    const result = configItemSchema.safeParse({
+      id: generateId(),
+      location: [record.lon, record.lat],
+      transport,
+      ranges: [...ranges].sort((a, b) => a - b),
+      rangeType,
+      units,
+      name: record.name?.slice(0, MARKER_NAME_MAX_LENGTH),
+      notes: record.notes?.slice(0, MARKER_NOTES_MAX_LENGTH),
+      color: record.color,
+    });
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const path = issue.path.join(".");
+        // Coordinates and profiles are already reported above in plainer
+        // words
+        if (path.startsWith("location") && errors.length > 0) continue;
+        if (path === "transport" && unknownProfile) continue;
+        errors.push(path ? `${path}: ${issue.message}` : issue.message);
+      }
+    }
+
+    return {
+      row: record.row,
+      name: record.name,
+      item: errors.length === 0 && result.success ? result.data : undefined,
+      errors,
+    };
+  });
+}
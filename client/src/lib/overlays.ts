@@ -0,0 +1,257 @@
+import {
+  area,
+  bbox,
+  centerOfMass,
+  difference,
+  featureCollection,
+  intersect,
+  length,
+  polygonToLine,
+  simplify,
+  union,
+} from "@turf/turf";
+import type { Feature, MultiPolygon, Polygon } from "geojson";
+
+export type OverlayPolygon = Feature<Polygon | MultiPolygon>;
+
+// A marker's widest isochrone band, the input to every overlay
+export interface OverlaySource {
+  id: string;
+  feature: OverlayPolygon;
+}
+
+export type OverlayStatus = "pending" | "insufficient" | "empty" | "found";
+
+export interface OverlayArea {
+  status: OverlayStatus;
+  count: number; // isochrones that went into the result
+  ids: string[]; // their marker ids
+  area?: number; // km²
+  centroid?: [number, number]; // [lon, lat]
+  feature?: OverlayPolygon;
+}
+
+export interface PairwiseIntersection {
+  ids: [string, string];
+  feature: OverlayPolygon;
+}
+
+// Area reached by at least `count` markers
+export interface CoverageLevel {
+  count: number;
+  ids: string[]; // markers considered
+  area: number; // km²
+  feature: OverlayPolygon;
+}
+
+export interface FeatureStats {
+  area: number; // km²
+  perimeter: number; // km
+  bbox: [number, number, number, number]; // [minLon, minLat, maxLon, maxLat]
+  centroid: [number, number]; // [lon, lat]
+}
+
+// ~10 m; ORS outlines carry far more detail than the set operations need
+export const DEFAULT_SIMPLIFY_TOLERANCE = 0.0001;
+
+// Messages exchanged with the geometry worker
+export type GeometryTask =
+  | { type: "pairwise"; sources: OverlaySource[] }
+  | { type: "common"; sources: OverlaySource[] }
+  | { type: "union"; sources: OverlaySource[] }
+  | { type: "difference"; from?: OverlaySource; minus?: OverlaySource }
+  | { type: "coverage"; sources: OverlaySource[] }
+  | { type: "stats"; feature: OverlayPolygon }
+  | { type: "overlap"; feature: OverlayPolygon; parent: OverlayPolygon }
+  | { type: "simplify"; feature: OverlayPolygon; tolerance?: number };
+
+export interface GeometryResults {
+  pairwise: PairwiseIntersection[];
+  common: OverlayArea;
+  union: OverlayArea;
+  difference: OverlayArea;
+  coverage: CoverageLevel[];
+  stats: FeatureStats;
+  overlap: number;
+  simplify: OverlayPolygon;
+}
+
+export type GeometryResult<T extends GeometryTask> = GeometryResults[T["type"]];
+
+export interface GeometryRequest {
+  id: number;
+  task: GeometryTask;
+}
+
+export type GeometryResponse =
+  | { id: number; ok: true; result: GeometryResults[GeometryTask["type"]] }
+  | { id: number; ok: false; error: string };
+
+const measure = (
+  feature: OverlayPolygon | null,
+  sources: OverlaySource[],
+): OverlayArea => {
+  const count = sources.length;
+  const ids = sources.map((source) => source.id);
+  if (!feature) return { status: "empty", count, ids };
+  return {
+    status: "found",
+    count,
+    ids,
+    area: area(feature) / 1_000_000,
+    centroid: centerOfMass(feature).geometry.coordinates as [number, number],
+    feature,
+  };
+};
+
+const insufficient = (sources: OverlaySource[]): OverlayArea => ({
+  status: "insufficient",
+  count: sources.length,
+  ids: sources.map((source) => source.id),
+});
+
+export function getPairwiseIntersections(
+  sources: OverlaySource[],
+): PairwiseIntersection[] {
+  const intersections: PairwiseIntersection[] = [];
+
+  for (let i = 0; i < sources.length; i++) {
+    for (let j = i + 1; j < sources.length; j++) {
+      const feature = intersect(
+        featureCollection([sources[i].feature, sources[j].feature]),
+      );
+      if (feature) {
+        intersections.push({ ids: [sources[i].id, sources[j].id], feature });
+      }
+    }
+  }
+
+  return intersections;
+}
+
+// The area every source can reach
+export function getCommonArea(sources: OverlaySource[]): OverlayArea {
+  if (sources.length < 2) return insufficient(sources);
+  return measure(
+    intersect(featureCollection(sources.map((source) => source.feature))),
+    sources,
+  );
+}
+
+// The area at least one source can reach
+export function getUnion(sources: OverlaySource[]): OverlayArea {
+  if (sources.length === 0) return insufficient(sources);
+  if (sources.length === 1) return measure(sources[0].feature, sources);
+  return measure(
+    union(featureCollection(sources.map((source) => source.feature))),
+    sources,
+  );
+}
+
+// The area `from` reaches that `minus` doesn't
+export function getDifference(
+  from: OverlaySource | undefined,
+  minus: OverlaySource | undefined,
+): OverlayArea {
+  if (!from || !minus) {
+    return insufficient([from, minus].filter((source) => !!source));
+  }
+  return measure(difference(featureCollection([from.feature, minus.feature])), [
+    from,
+    minus,
+  ]);
+}
+
+// Builds the "reached by at least n" levels one source at a time: adding a
+// source lifts whatever it overlaps at level n - 1 into level n, so a dozen
+// markers cost O(n²) set operations instead of one per combination
+export function getCoverage(sources: OverlaySource[]): CoverageLevel[] {
+  let levels: OverlayPolygon[] = [];
+
+  for (const { feature } of sources) {
+    const next = [...levels];
+
+    for (let n = levels.length; n >= 0; n--) {
+      const reached =
+        n === 0
+          ? feature
+          : intersect(featureCollection([levels[n - 1], feature]));
+      if (!reached) continue;
+
+      next[n] = levels[n]
+        ? (union(featureCollection([levels[n], reached])) ?? levels[n])
+        : reached;
+    }
+
+    levels = next;
+  }
+
+  const ids = sources.map((source) => source.id);
+  return levels.map((feature, index) => ({
+    count: index + 1,
+    ids,
+    area: area(feature) / 1_000_000,
+    feature,
+  }));
+}
+
+export function getFeatureStats(feature: OverlayPolygon): FeatureStats {
+  return {
+    area: area(feature) / 1_000_000,
+    perimeter: length(polygonToLine(feature), { units: "kilometers" }),
+    bbox: bbox(feature) as FeatureStats["bbox"],
+    centroid: centerOfMass(feature).geometry.coordinates as [number, number],
+  };
+}
+
+// Share of `parent`'s area that lies inside `feature`, from 0 to 1
+export function getOverlap(
+  feature: OverlayPolygon,
+  parent: OverlayPolygon,
+): number {
+  const parentArea = area(parent);
+  if (parentArea === 0) return 0;
+
+  const shared = intersect(featureCollection([feature, parent]));
+  return shared ? Math.min(area(shared) / parentArea, 1) : 0;
+}
+
+export const simplifyPolygon = (
+  feature: OverlayPolygon,
+  tolerance = DEFAULT_SIMPLIFY_TOLERANCE,
+): OverlayPolygon => simplify(feature, { tolerance });
+
+const simplifySource = (source: OverlaySource): OverlaySource => ({
+  ...source,
+  feature: simplifyPolygon(source.feature),
+});
+
+const simplifySources = (sources: OverlaySource[]) =>
+  sources.map(simplifySource);
+
+export function runGeometryTask<T extends GeometryTask>(
+  task: T,
+): GeometryResult<T>;
+export function runGeometryTask(task: GeometryTask) {
+  switch (task.type) {
+    case "pairwise":
+      return getPairwiseIntersections(simplifySources(task.sources));
+    case "common":
+      return getCommonArea(simplifySources(task.sources));
+    case "union":
+      return getUnion(simplifySources(task.sources));
+    case "difference":
+      return getDifference(
+        task.from && simplifySource(task.from),
+        task.minus && simplifySource(task.minus),
+      );
+    case "coverage":
+      return getCoverage(simplifySources(task.sources));
+    case "stats":
+      return getFeatureStats(task.feature);
+    case "overlap":
+      return getOverlap(task.feature, task.parent);
+    case "simplify":
+      return simplifyPolygon(task.feature, task.tolerance);
+  }
+}
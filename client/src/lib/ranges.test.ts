@@ -0,0 +1,18 @@
+import { getRangeOptions } from "@/lib/ranges";
+import { describe, expect, test } from "vitest";
+
+describe("getRangeOptions", () => {
+  test("offers the presets for the range type", () => {
+    expect(getRangeOptions("time")).toEqual([5, 10, 15, 30, 60, 90, 120]);
+    expect(getRangeOptions("distance")).toEqual([1, 2, 5, 10, 15, 20, 50]);
+  });
+
+  test("slots chosen values that aren't presets in among them", () => {
+    expect(getRangeOptions("time", [25, 30, 240])).toEqual([
+      5, 10, 15, 25, 30, 60, 90, 120, 240,
+    ]);
+    expect(getRangeOptions("distance", [2.5])).toEqual([
+      1, 2, 2.5, 5, 10, 15, 20, 50,
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+export type RangeType = "time" | "distance";
+export type Units = "km" | "mi";
+
+const METRES_PER_UNIT: Record<Units, number> = {
+  km: 1000,
+  mi: 1609.344,
+};
+
+// Ranges are stored as the server expects them: seconds or metres. The
+// dialog works in minutes, kilometres or miles.
+export const toRangeValue = (
+  value: number,
+  rangeType: RangeType,
+  units: Units,
+) => (rangeType === "time" ? value * 60 : value * METRES_PER_UNIT[units]);
+
+export const fromRangeValue = (
+  value: number,
+  rangeType: RangeType,
+  units: Units,
+) =>
+  rangeType === "time"
+    ? value / 60
+    : Math.round((value / METRES_PER_UNIT[units]) * 100) / 100;
+
+export const getRangeUnitLabel = (rangeType: RangeType, units: Units) =>
+  rangeType === "time" ? "min" : units;
+
+export const formatRange = (
+  value: number,
+  rangeType: RangeType,
+  units: Units,
+) =>
+  `${fromRangeValue(value, rangeType, units)} ${getRangeUnitLabel(rangeType, units)}`;
+
+// Values already chosen that aren't presets, such as an imported 25 min, are
+// offered alongside them so they can still be seen and deselected
+export const getRangeOptions = (
+  rangeType: RangeType,
+  selected: number[] = [],
+) => {
+  const presets =
+    rangeType === "time"
+      ? [5, 10, 15, 30, 60, 90, 120]
+      : [1, 2, 5, 10, 15, 20, 50];
+  return [...new Set([...presets, ...selected])].sort((a, b) => a - b);
+};
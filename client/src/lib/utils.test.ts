@@ -0,0 +1,21 @@
+import { getCopyName } from "@/lib/utils";
+import { SCENARIO_NAME_MAX_LENGTH } from "@server/schemas/scenarios";
+import { describe, expect, test } from "vitest";
+
+describe("getCopyName", () => {
+  test("appends the suffix to short names", () => {
+    expect(getCopyName("Office", SCENARIO_NAME_MAX_LENGTH)).toBe(
+      "Office (copy)",
+    );
+  });
+
+  test.each([94, 99, 100])(
+    "keeps a %i-character name within the limit",
+    (length) => {
+      const copy = getCopyName("x".repeat(length), SCENARIO_NAME_MAX_LENGTH);
+
+      expect(copy).toHaveLength(SCENARIO_NAME_MAX_LENGTH);
+      expect(copy).toBe(`${"x".repeat(93)} (copy)`);
+    },
+  );
+});
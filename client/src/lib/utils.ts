@@ -4,3 +4,18 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Rejects when the browser refuses, or has no Clipboard API at all, as on
+// pages not served over HTTPS
+export const copyText = async (text: string) => {
+  if (!navigator.clipboard) {
+    throw new Error("This page can't use the clipboard; copy the link by hand");
+  }
+  await navigator.clipboard.writeText(text);
+};
+
+export const generateId = () => Math.random().toString(36).slice(2, 11);
+
+// The original name, shortened so the suffix still fits within `maxLength`
+export const getCopyName = (name: string, maxLength: number) =>
+  `${name.slice(0, maxLength - " (copy)".length)} (copy)`;
@@ -1,3 +1,12 @@
+import ImportDialog, { type ImportMode } from "@/components/import-dialog";
+import LocationSearch from "@/components/location-search";
+import MapMenu from "@/components/map-menu";
+import MarkerList from "@/components/marker-list";
+import OverlayPanel from "@/components/overlay-panel";
+import ScenariosDialog from "@/components/scenarios-dialog";
+import QuotaBadge from "@/components/quota-badge";
+import StatsPanel from "@/components/stats-panel";
+import Toast from "@/components/toast";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -16,38 +25,102 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useBasemaps } from "@/hooks/use-basemaps";
 import {
+  colorSchema,
   type ConfigItem,
+  encodeConfig,
   locationSchema,
+  MARKER_NAME_MAX_LENGTH,
+  MARKER_NOTES_MAX_LENGTH,
+  rangeTypeSchema,
   transportSchema,
+  unitsSchema,
   useConfig,
 } from "@/hooks/use-config";
-import { useMap } from "@/hooks/use-map";
-import { useForm } from "@tanstack/react-form";
+import { useConfigHistory } from "@/hooks/use-config-history";
+import { useReverseGeocode } from "@/hooks/use-geocode";
+import {
+  type MapFocus,
+  type MapGeoJson,
+  type MapView,
+  type OverlayMode,
+  getMarkerColor,
+  useMap,
+  useMarkerStatuses,
+} from "@/hooks/use-map";
+import { useMediaQuery } from "@/hooks/use-media-query";
+import { useProfileColors, useProfiles } from "@/hooks/use-profiles";
+import {
+  fromRangeValue,
+  getRangeOptions,
+  getRangeUnitLabel,
+  type RangeType,
+  toRangeValue,
+  type Units,
+} from "@/lib/ranges";
+import { copyText, generateId, getCopyName } from "@/lib/utils";
+import type { Scenario } from "@server/scenarios";
+import type { GeocodeResult } from "@server/schemas/geocode";
+import { useForm, useStore } from "@tanstack/react-form";
 import { createFileRoute } from "@tanstack/react-router";
 import type { LeafletEvent, LeafletMouseEvent } from "leaflet";
+import { ExpandIcon, ListIcon, Redo2Icon, Undo2Icon } from "lucide-react";
 import "leaflet/dist/leaflet.css";
-import { useState } from "react";
+import { useMemo, useRef, useState } from "react";
+import { useLocalStorage } from "usehooks-ts";
 import { z } from "zod";
 
 type FormState = "create" | "edit";
 
+// The outcome of copying a link, with the reason when it failed
+interface CopyNotice {
+  id: number;
+  error?: string;
+}
+
+const COPY_NOTICE_DURATION = 4000;
+
 const searchSchema = z.object({
   config: z.string().optional(),
+  overlay: z
+    .enum(["pairwise", "common", "union", "difference", "coverage"])
+    .optional(),
+  selection: z.array(z.string()).optional(),
+  from: z.string().optional(),
+  minus: z.string().optional(),
+  // The saved scenario the map was opened from
+  scenario: z.string().optional(),
+  // Where the map is looking, for links that keep it
+  lat: z.number().min(-90).max(90).optional().catch(undefined),
+  lng: z.number().min(-180).max(180).optional().catch(undefined),
+  zoom: z.number().min(0).max(22).optional().catch(undefined),
 });
 
 const formValuesSchema = z.object({
   id: z.string(),
   location: locationSchema,
   transport: transportSchema,
-  range: z.number(),
+  ranges: z.array(z.number()).nonempty(),
+  rangeType: rangeTypeSchema,
+  units: unitsSchema,
+  name: z.string().trim().max(MARKER_NAME_MAX_LENGTH),
+  notes: z.string().trim().max(MARKER_NOTES_MAX_LENGTH),
+  // Empty for the transport's colour
+  color: z.union([colorSchema, z.literal("")]),
 });
 
-const generateId = () => Math.random().toString(36).slice(2, 11);
+const rangeTypeOptions: { value: RangeType; label: string }[] = [
+  { value: "time", label: "Time" },
+  { value: "distance", label: "Distance" },
+];
 
-const getRangeOptions = () => {
-  return [5, 10, 15, 30, 60, 90, 120];
-};
+const unitsOptions: { value: Units; label: string }[] = [
+  { value: "km", label: "Kilometres" },
+  { value: "mi", label: "Miles" },
+];
 
 export const Route = createFileRoute("/")({
   component: Index,
@@ -57,65 +130,224 @@ export const Route = createFileRoute("/")({
 function Index() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [formState, setFormState] = useState<FormState>("create");
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isScenariosOpen, setIsScenariosOpen] = useState(false);
+  const [selectedLayerKey, setSelectedLayerKey] = useState<string | null>(null);
+  const [focus, setFocus] = useState<MapFocus>();
+  const isDesktop = useMediaQuery("(min-width: 768px)");
+  // Open beside the map on wide screens; the drawer waits to be asked
+  const [isListOpen, setIsListOpen] = useState(isDesktop);
+  // Previews fetch as markers move, so they're opt-in
+  const [isPreviewOn, setIsPreviewOn] = useLocalStorage("live-preview", false);
+  const [isViewInLink, setIsViewInLink] = useLocalStorage(
+    "view-in-link",
+    false,
+  );
+  const view = useRef<MapView>(undefined);
+  const { basemaps, basemap, setBasemap } = useBasemaps();
 
   const navigate = Route.useNavigate();
   const search = Route.useSearch();
-  const config = useConfig(search.config);
+  const { config, error: configError } = useConfig(search.config);
+  // The link whose error was dismissed; a new link can raise its own
+  const [dismissedConfig, setDismissedConfig] = useState<string>();
+  const [copyNotice, setCopyNotice] = useState<CopyNotice>();
+  const profiles = useProfiles();
+  const profileColors = useProfileColors();
+  const visibleConfig = useMemo(
+    () => config.filter((item) => !item.hidden),
+    [config],
+  );
+  const markerStatuses = useMarkerStatuses(config);
+
+  const history = useConfigHistory(search.config, (config) =>
+    navigate({ search: (prev) => ({ ...prev, config }) }),
+  );
+
+  // Other search params (overlay mode, selection) survive config edits.
+  // Changes with the same coalesce key in quick succession undo together.
+  function updateConfig(updatedConfig: ConfigItem[], coalesceKey?: string) {
+    history.record(coalesceKey);
+    navigate({
+      search: (prev) => ({
+        ...prev,
+        config: encodeConfig(updatedConfig),
+      }),
+    });
+  }
+
+  // The view and overlay mode stay. Marker selections only carry over when
+  // the markers do, as after saving the map that's open.
+  function handleOpenScenario(scenario: Scenario) {
+    history.record();
+    navigate({
+      search: (prev) => ({
+        ...prev,
+        ...(prev.config !== scenario.config && {
+          selection: undefined,
+          from: undefined,
+          minus: undefined,
+        }),
+        config: scenario.config,
+        scenario: scenario.id,
+      }),
+    });
+  }
+
+  async function handleCopyLink(url: string) {
+    try {
+      await copyText(url);
+      setCopyNotice({ id: Date.now() });
+    } catch (error) {
+      setCopyNotice({
+        id: Date.now(),
+        error: error instanceof Error ? error.message : "The browser refused",
+      });
+    }
+  }
+
+  function handleImport(items: ConfigItem[], mode: ImportMode) {
+    updateConfig(mode === "replace" ? items : [...config, ...items]);
+  }
+
+  // Replaces the history entry, as the view changes with every pan
+  function updateView(next: MapView | undefined) {
+    navigate({
+      search: (prev) => ({
+        ...prev,
+        lat: next && Number(next.center[0].toFixed(5)),
+        lng: next && Number(next.center[1].toFixed(5)),
+        zoom: next?.zoom,
+      }),
+      replace: true,
+    });
+  }
+
+  function handleViewChange(next: MapView) {
+    view.current = next;
+    if (isViewInLink) updateView(next);
+  }
+
+  function handleViewInLinkChange(viewInLink: boolean) {
+    setIsViewInLink(viewInLink);
+    updateView(viewInLink ? view.current : undefined);
+  }
+
+  function handleOverlayModeChange(mode: OverlayMode) {
+    navigate({
+      search: (prev) => ({
+        ...prev,
+        overlay: mode === "pairwise" ? undefined : mode,
+      }),
+    });
+  }
+
+  function handleSelectionChange(selection: string[] | undefined) {
+    navigate({ search: (prev) => ({ ...prev, selection }) });
+  }
+
+  function handleDifferenceChange(difference: { from: string; minus: string }) {
+    navigate({ search: (prev) => ({ ...prev, ...difference }) });
+  }
 
   const defaultValues = {
     id: "",
     location: [-0.1276, 51.5074],
     transport: "",
-    range: 0,
+    ranges: [] as number[],
+    rangeType: "time" as RangeType,
+    units: "km" as Units,
+    name: "",
+    notes: "",
+    color: "",
   };
 
   const form = useForm({
     defaultValues,
     onSubmit: async ({ value }) => {
       const parsedValue = formValuesSchema.parse(value);
-      const { id, location, range, transport } = parsedValue;
+      const { id, location, ranges, rangeType, transport, units } = parsedValue;
+      const { name, notes, color } = parsedValue;
 
+      const existingItem = config.find((item) => item.id === parsedValue.id);
       const newItem: ConfigItem = {
         id,
         location,
         transport,
-        range: range * 60,
+        ranges: ranges
+          .map((range) => toRangeValue(range, rangeType, units))
+          .sort((a, b) => a - b) as [number, ...number[]],
+        rangeType,
+        units,
+        // Left out when unset, so the URL doesn't grow
+        ...(name && { name }),
+        ...(notes && { notes }),
+        ...(color && { color }),
+        ...(existingItem?.hidden && { hidden: true }),
       };
 
-      const existingItem = config.find((item) => item.id === parsedValue.id);
       const updatedConfig = existingItem
         ? config.map((item) => (item.id === parsedValue.id ? newItem : item))
         : [...config, newItem];
 
-      navigate({
-        search: { config: btoa(JSON.stringify(updatedConfig)) },
-      });
+      updateConfig(updatedConfig);
 
       form.reset();
       setIsDialogOpen(false);
     },
   });
 
-  function handleMapClick(e: LeafletMouseEvent) {
-    const { lat: latitude, lng: longitude } = e.latlng;
+  const rangeType = useStore(form.store, (state) => state.values.rangeType);
+  const units = useStore(form.store, (state) => state.values.units);
+  const rangeUnitLabel = getRangeUnitLabel(rangeType, units);
+  const ranges = useStore(form.store, (state) => state.values.ranges);
+  const rangeOptions = getRangeOptions(rangeType, ranges);
+  const transport = useStore(form.store, (state) => state.values.transport);
+  const location = useStore(form.store, (state) => state.values.location);
+  const address = useReverseGeocode(location as [number, number], {
+    enabled: isDialogOpen,
+  });
 
+  function openCreateForm(location: [number, number]) {
     form.setFieldValue("id", generateId());
-    form.setFieldValue("location", [longitude, latitude]);
+    form.setFieldValue("location", location);
     form.setFieldValue("transport", "");
-    form.setFieldValue("range", 0);
+    form.setFieldValue("ranges", []);
+    form.setFieldValue("rangeType", "time");
+    form.setFieldValue("units", "km");
+    form.setFieldValue("name", "");
+    form.setFieldValue("notes", "");
+    form.setFieldValue("color", "");
 
     setIsDialogOpen(true);
     setFormState("create");
   }
 
-  function handleIsochroneClick(e: LeafletEvent) {
-    console.log(e);
+  function handleMapClick(e: LeafletMouseEvent) {
+    const { lat: latitude, lng: longitude } = e.latlng;
+    openCreateForm([longitude, latitude]);
+  }
+
+  // Fly to the place and offer a marker there
+  function handleSearchSelect(result: GeocodeResult) {
+    const [longitude, latitude] = result.location;
+    setFocus({ position: [latitude, longitude], bbox: result.bbox });
+    openCreateForm(result.location);
   }
 
-  function handleIntersectionClick(e: LeafletEvent) {
-    console.log(e);
+  function handleLayerClick(geojson: MapGeoJson) {
+    setSelectedLayerKey(geojson.key);
   }
 
+  const overlayOptions = useMemo(
+    () => ({
+      mode: search.overlay ?? "pairwise",
+      selection: search.selection,
+      difference: { from: search.from, minus: search.minus },
+    }),
+    [search.overlay, search.selection, search.from, search.minus],
+  );
+
   function handleMarkerClick(id: string) {
     const marker = config.find((item) => item.id === id);
 
@@ -123,7 +355,17 @@ function Index() {
       form.setFieldValue("id", marker.id);
       form.setFieldValue("location", marker.location);
       form.setFieldValue("transport", marker.transport);
-      form.setFieldValue("range", marker.range / 60);
+      form.setFieldValue(
+        "ranges",
+        marker.ranges.map((range) =>
+          fromRangeValue(range, marker.rangeType, marker.units),
+        ),
+      );
+      form.setFieldValue("rangeType", marker.rangeType);
+      form.setFieldValue("units", marker.units);
+      form.setFieldValue("name", marker.name ?? "");
+      form.setFieldValue("notes", marker.notes ?? "");
+      form.setFieldValue("color", marker.color ?? "");
 
       setIsDialogOpen(true);
       setFormState("edit");
@@ -132,175 +374,553 @@ function Index() {
 
   function handleDeleteMarker(id: string) {
     const updatedConfig = config.filter((item) => item.id !== id);
-    navigate({
-      search: { config: btoa(JSON.stringify(updatedConfig)) },
-    });
+    updateConfig(updatedConfig);
     form.reset();
     setIsDialogOpen(false);
   }
 
+  function handleDuplicateMarker(id: string) {
+    const index = config.findIndex((item) => item.id === id);
+    const item = config[index];
+    if (!item) return;
+
+    const copy: ConfigItem = {
+      ...item,
+      id: generateId(),
+      ...(item.name && {
+        name: getCopyName(item.name, MARKER_NAME_MAX_LENGTH),
+      }),
+    };
+    updateConfig([
+      ...config.slice(0, index + 1),
+      copy,
+      ...config.slice(index + 1),
+    ]);
+  }
+
+  function handleToggleHidden(id: string) {
+    updateConfig(
+      config.map((item): ConfigItem => {
+        if (item.id !== id) return item;
+        // Dropped rather than false, so the URL doesn't grow
+        const { hidden, ...rest } = item;
+        return hidden ? rest : { ...rest, hidden: true };
+      }),
+    );
+  }
+
+  function handleMoveMarker(id: string, offset: -1 | 1) {
+    const index = config.findIndex((item) => item.id === id);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= config.length) return;
+
+    const updatedConfig = [...config];
+    [updatedConfig[index], updatedConfig[target]] = [
+      updatedConfig[target]!,
+      updatedConfig[index]!,
+    ];
+    updateConfig(updatedConfig);
+  }
+
+  // The whole isochrone once it's in, otherwise just the marker
+  function handleZoomToMarker(id: string) {
+    const item = config.find((item) => item.id === id);
+    if (!item) return;
+
+    const status = markerStatuses[id];
+    const [longitude, latitude] = item.location;
+    setFocus({
+      position: [latitude, longitude],
+      bbox: status?.state === "ready" ? status.bbox : undefined,
+    });
+  }
+
   function handleMarkerDragEnd(id: string, e: LeafletEvent) {
     const { lat, lng } = e.target.getLatLng();
-    const updatedConfig = config.map((item) =>
-      item.id === id ? { ...item, location: [lng, lat] } : item,
+    const updatedConfig = config.map(
+      (item): ConfigItem =>
+        item.id === id ? { ...item, location: [lng, lat] } : item,
     );
-    navigate({
-      search: { config: btoa(JSON.stringify(updatedConfig)) },
+    updateConfig(updatedConfig, `drag-${id}`);
+  }
+
+  const linkView = useMemo(
+    (): MapView | undefined =>
+      search.lat !== undefined &&
+      search.lng !== undefined &&
+      search.zoom !== undefined
+        ? { center: [search.lat, search.lng], zoom: search.zoom }
+        : undefined,
+    [search.lat, search.lng, search.zoom],
+  );
+
+  const { overlay, ...mapProps } = useMap(
+    config,
+    {
+      map: { click: handleMapClick },
+      marker: { click: handleMarkerClick, dragend: handleMarkerDragEnd },
+      isochrone: { click: handleLayerClick },
+      intersection: { click: handleLayerClick },
+      union: { click: handleLayerClick },
+      difference: { click: handleLayerClick },
+      coverage: { click: handleLayerClick },
+    },
+    { overlay: overlayOptions, preview: isPreviewOn, view: linkView },
+  );
+
+  function handleZoomToAll() {
+    const bounds = mapProps.bounds;
+    if (!bounds) return;
+
+    const [west, south, east, north] = bounds;
+    setFocus({
+      position: [(south + north) / 2, (west + east) / 2],
+      bbox: bounds,
     });
   }
 
-  const mapProps = useMap(config, {
-    map: { click: handleMapClick },
-    marker: { click: handleMarkerClick, dragend: handleMarkerDragEnd },
-    isochrone: { click: handleIsochroneClick },
-    intersection: { click: handleIntersectionClick },
-  });
+  // Closes by itself once the layer leaves the map
+  const selectedLayer = mapProps.geojson?.find(
+    (layer) => layer.key === selectedLayerKey,
+  );
 
   return (
-    <div className="isolate">
-      <Map {...mapProps} />
-
-      <Dialog
-        open={isDialogOpen}
-        onOpenChange={(open) => {
-          setIsDialogOpen(open);
-          if (!open) {
-            form.reset();
-          }
-        }}
-      >
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            {formState === "create" && (
-              <>
-                <DialogTitle>Create Marker</DialogTitle>
-                <DialogDescription>
-                  Add a new location marker to the map.
-                </DialogDescription>
-              </>
-            )}
-            {formState === "edit" && (
-              <>
-                <DialogTitle>Edit Marker</DialogTitle>
-                <DialogDescription>
-                  Modify or remove this location marker.
-                </DialogDescription>
-              </>
-            )}
-          </DialogHeader>
-
-          <form
-            onSubmit={(e) => {
-              e.preventDefault();
-              form.handleSubmit();
-            }}
-            className="space-y-6"
+    <div className="flex min-h-0">
+      <MarkerList
+        layout={isDesktop ? "sidebar" : "drawer"}
+        open={isListOpen}
+        onOpenChange={setIsListOpen}
+        config={config}
+        statuses={markerStatuses}
+        onEdit={handleMarkerClick}
+        onDuplicate={handleDuplicateMarker}
+        onToggleHidden={handleToggleHidden}
+        onMove={handleMoveMarker}
+        onZoomTo={handleZoomToMarker}
+        onDelete={handleDeleteMarker}
+      />
+      <div className="relative isolate min-w-0 flex-1">
+        <Map
+          {...mapProps}
+          focus={focus}
+          onViewChange={handleViewChange}
+          basemaps={basemaps}
+          basemap={basemap}
+          onBasemapChange={setBasemap}
+        />
+        <LocationSearch
+          className="absolute top-3 left-1/2 z-[1000] w-80 max-w-[calc(100%-16rem)] -translate-x-1/2"
+          onSelect={handleSearchSelect}
+        />
+        <QuotaBadge className="absolute top-3 right-3 z-[1000]" />
+        <div className="absolute top-3 left-14 z-[1000] flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            className="bg-white shadow-xs"
+            aria-pressed={isListOpen}
+            onClick={() => setIsListOpen(!isListOpen)}
           >
-            <form.Field
-              name="transport"
-              validators={{
-                onBlur: ({ value }) =>
-                  !value ? "Transport type is required" : undefined,
-              }}
-              children={(field) => (
-                <div className="space-y-2">
-                  <Label htmlFor="transport">Transport Type</Label>
-                  <Select
-                    value={field.state.value}
-                    onValueChange={field.handleChange}
-                    onOpenChange={(open) => {
-                      if (!open) field.handleBlur();
-                    }}
-                  >
-                    <SelectTrigger id="transport" className="w-full">
-                      <SelectValue placeholder="Select a transport type..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="driving-car">Driving (car)</SelectItem>
-                      <SelectItem value="cycling-regular">Cycling</SelectItem>
-                      <SelectItem value="foot-walking">Walking</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  {field.state.meta.errors && (
-                    <p className="text-sm text-red-500">
-                      {field.state.meta.errors[0]}
-                    </p>
-                  )}
-                </div>
+            <ListIcon />
+            Markers ({config.length})
+          </Button>
+          <div className="flex rounded-md border bg-white shadow-xs">
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              aria-label="Undo"
+              title="Undo (Ctrl+Z)"
+              disabled={!history.canUndo}
+              onClick={history.undo}
+            >
+              <Undo2Icon />
+            </Button>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              aria-label="Redo"
+              title="Redo (Ctrl+Shift+Z)"
+              disabled={!history.canRedo}
+              onClick={history.redo}
+            >
+              <Redo2Icon />
+            </Button>
+          </div>
+          <Button
+            type="button"
+            size="icon"
+            variant="outline"
+            className="bg-white shadow-xs"
+            aria-label="Zoom to all"
+            title="Zoom to all"
+            disabled={!mapProps.bounds}
+            onClick={handleZoomToAll}
+          >
+            <ExpandIcon />
+          </Button>
+          <MapMenu
+            config={visibleConfig}
+            encodedConfig={search.config}
+            layers={mapProps.geojson ?? []}
+            onImport={() => setIsImportOpen(true)}
+            onScenarios={() => setIsScenariosOpen(true)}
+            onCopyLink={handleCopyLink}
+            preview={isPreviewOn}
+            onPreviewChange={setIsPreviewOn}
+            viewInLink={isViewInLink}
+            onViewInLinkChange={handleViewInLinkChange}
+          />
+        </div>
+        <ScenariosDialog
+          open={isScenariosOpen}
+          onOpenChange={setIsScenariosOpen}
+          encodedConfig={search.config ?? encodeConfig(config)}
+          currentId={search.scenario}
+          onOpenScenario={handleOpenScenario}
+          onCopyLink={handleCopyLink}
+        />
+        <ImportDialog
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          onImport={handleImport}
+        />
+        <div className="absolute bottom-6 left-1/2 z-[1000] flex w-96 max-w-[calc(100%-1.5rem)] -translate-x-1/2 flex-col gap-2">
+          {configError && dismissedConfig !== search.config && (
+            <Toast
+              className="w-full max-w-none"
+              title="Some markers in this link couldn't be loaded"
+              onDismiss={() => setDismissedConfig(search.config)}
+            >
+              {configError}. Editing the map replaces the link.
+            </Toast>
+          )}
+          {copyNotice && (
+            <Toast
+              key={copyNotice.id}
+              className="w-full max-w-none"
+              variant={copyNotice.error ? "error" : "success"}
+              title={
+                copyNotice.error ? "Couldn't copy the link" : "Link copied"
+              }
+              duration={COPY_NOTICE_DURATION}
+              onDismiss={() => setCopyNotice(undefined)}
+            >
+              {copyNotice.error}
+            </Toast>
+          )}
+        </div>
+        <OverlayPanel
+          className="absolute bottom-6 left-3 z-[1000]"
+          config={config}
+          overlay={overlay}
+          selection={search.selection}
+          onModeChange={handleOverlayModeChange}
+          onSelectionChange={handleSelectionChange}
+          onDifferenceChange={handleDifferenceChange}
+        />
+        {selectedLayer && (
+          <StatsPanel
+            className="absolute top-12 right-3 z-[1000]"
+            layer={selectedLayer}
+            layers={mapProps.geojson ?? []}
+            config={config}
+            onClose={() => setSelectedLayerKey(null)}
+          />
+        )}
+
+        <Dialog
+          open={isDialogOpen}
+          onOpenChange={(open) => {
+            setIsDialogOpen(open);
+            if (!open) {
+              form.reset();
+            }
+          }}
+        >
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              {formState === "create" && (
+                <>
+                  <DialogTitle>Create Marker</DialogTitle>
+                  <DialogDescription>
+                    Add a new location marker to the map.
+                  </DialogDescription>
+                </>
+              )}
+              {formState === "edit" && (
+                <>
+                  <DialogTitle>Edit Marker</DialogTitle>
+                  <DialogDescription>
+                    Modify or remove this location marker.
+                  </DialogDescription>
+                </>
               )}
-            />
+            </DialogHeader>
 
-            <form.Field
-              name="range"
-              validators={{
-                onBlur: ({ value }) =>
-                  !value ? "Range is required" : undefined,
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                form.handleSubmit();
               }}
-              children={(field) => (
-                <div className="space-y-2">
-                  <Label htmlFor="range">Range (minutes)</Label>
-                  <Select
-                    value={
-                      field.state.value && field.state.value > 0
-                        ? field.state.value.toString()
-                        : ""
-                    }
-                    onValueChange={(value) =>
-                      field.handleChange(parseInt(value))
-                    }
-                    onOpenChange={(open) => {
-                      if (!open) field.handleBlur();
-                    }}
-                  >
-                    <SelectTrigger id="range" className="w-full">
-                      <SelectValue placeholder="Select a range..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {getRangeOptions().map((r) => (
-                        <SelectItem key={r} value={r.toString()}>
-                          {r} min
-                        </SelectItem>
+              className="space-y-6"
+            >
+              <form.Field
+                name="name"
+                children={(field) => (
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Name</Label>
+                    <Input
+                      id="name"
+                      placeholder="Optional"
+                      maxLength={MARKER_NAME_MAX_LENGTH}
+                      value={field.state.value}
+                      onChange={(e) => field.handleChange(e.target.value)}
+                      onBlur={field.handleBlur}
+                    />
+                  </div>
+                )}
+              />
+
+              <form.Field
+                name="transport"
+                validators={{
+                  onBlur: ({ value }) =>
+                    !value ? "Transport type is required" : undefined,
+                }}
+                children={(field) => (
+                  <div className="space-y-2">
+                    <Label htmlFor="transport">Transport Type</Label>
+                    <Select
+                      value={field.state.value}
+                      onValueChange={field.handleChange}
+                      onOpenChange={(open) => {
+                        if (!open) field.handleBlur();
+                      }}
+                    >
+                      <SelectTrigger id="transport" className="w-full">
+                        <SelectValue placeholder="Select a transport type..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {profiles.map((profile) => (
+                          <SelectItem key={profile.id} value={profile.id}>
+                            {profile.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {field.state.meta.errors && (
+                      <p className="text-sm text-red-500">
+                        {field.state.meta.errors[0]}
+                      </p>
+                    )}
+                  </div>
+                )}
+              />
+
+              <form.Field
+                name="rangeType"
+                children={(field) => (
+                  <div className="space-y-2">
+                    <Label id="range-type-label">Range Type</Label>
+                    <div
+                      role="group"
+                      aria-labelledby="range-type-label"
+                      className="flex gap-2"
+                    >
+                      {rangeTypeOptions.map((option) => (
+                        <Button
+                          key={option.value}
+                          type="button"
+                          size="sm"
+                          variant={
+                            field.state.value === option.value
+                              ? "default"
+                              : "outline"
+                          }
+                          aria-pressed={field.state.value === option.value}
+                          onClick={() => {
+                            if (field.state.value === option.value) return;
+                            field.handleChange(option.value);
+                            // Minutes and distances don't translate, start over
+                            form.setFieldValue("ranges", []);
+                          }}
+                        >
+                          {option.label}
+                        </Button>
                       ))}
-                    </SelectContent>
-                  </Select>
-                  {field.state.meta.errors && (
-                    <p className="text-sm text-red-500">
-                      {field.state.meta.errors[0]}
-                    </p>
+                    </div>
+                  </div>
+                )}
+              />
+
+              {rangeType === "distance" && (
+                <form.Field
+                  name="units"
+                  children={(field) => (
+                    <div className="space-y-2">
+                      <Label id="units-label">Units</Label>
+                      <div
+                        role="group"
+                        aria-labelledby="units-label"
+                        className="flex gap-2"
+                      >
+                        {unitsOptions.map((option) => (
+                          <Button
+                            key={option.value}
+                            type="button"
+                            size="sm"
+                            variant={
+                              field.state.value === option.value
+                                ? "default"
+                                : "outline"
+                            }
+                            aria-pressed={field.state.value === option.value}
+                            onClick={() => field.handleChange(option.value)}
+                          >
+                            {option.label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
                   )}
-                </div>
+                />
               )}
-            />
-
-            <div className="space-y-2">
-              <Label>Location</Label>
-              <div className="border-input bg-muted rounded-md border px-3 py-2">
-                <p className="font-mono text-sm">
-                  {form.state.values.location[0].toFixed(4)},{" "}
-                  {form.state.values.location[1].toFixed(4)}
-                </p>
+
+              <form.Field
+                name="ranges"
+                validators={{
+                  onChange: ({ value }) =>
+                    value.length === 0
+                      ? "Select at least one range"
+                      : undefined,
+                }}
+                children={(field) => (
+                  <div className="space-y-2">
+                    <Label id="ranges-label">Ranges ({rangeUnitLabel})</Label>
+                    <div
+                      role="group"
+                      aria-labelledby="ranges-label"
+                      className="flex flex-wrap gap-2"
+                    >
+                      {rangeOptions.map((r) => {
+                        const selected = field.state.value.includes(r);
+                        return (
+                          <Button
+                            key={r}
+                            type="button"
+                            size="sm"
+                            variant={selected ? "default" : "outline"}
+                            aria-pressed={selected}
+                            onClick={() =>
+                              field.handleChange(
+                                selected
+                                  ? field.state.value.filter(
+                                      (value) => value !== r,
+                                    )
+                                  : [...field.state.value, r].sort(
+                                      (a, b) => a - b,
+                                    ),
+                              )
+                            }
+                          >
+                            {r} {rangeUnitLabel}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                    {field.state.meta.errors && (
+                      <p className="text-sm text-red-500">
+                        {field.state.meta.errors[0]}
+                      </p>
+                    )}
+                  </div>
+                )}
+              />
+
+              <form.Field
+                name="color"
+                children={(field) => (
+                  <div className="space-y-2">
+                    <Label htmlFor="color">Colour</Label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        id="color"
+                        type="color"
+                        className="border-input h-9 w-14 cursor-pointer rounded-md border bg-transparent p-1"
+                        value={
+                          field.state.value ||
+                          getMarkerColor({ transport }, profileColors)
+                        }
+                        onChange={(e) => field.handleChange(e.target.value)}
+                      />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        disabled={!field.state.value}
+                        onClick={() => field.handleChange("")}
+                      >
+                        Use transport colour
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              />
+
+              <form.Field
+                name="notes"
+                children={(field) => (
+                  <div className="space-y-2">
+                    <Label htmlFor="notes">Notes</Label>
+                    <Textarea
+                      id="notes"
+                      placeholder="Optional"
+                      maxLength={MARKER_NOTES_MAX_LENGTH}
+                      value={field.state.value}
+                      onChange={(e) => field.handleChange(e.target.value)}
+                      onBlur={field.handleBlur}
+                    />
+                  </div>
+                )}
+              />
+
+              <div className="space-y-2">
+                <Label>Location</Label>
+                <div className="border-input bg-muted rounded-md border px-3 py-2">
+                  <p className="text-sm">
+                    {address.label ??
+                      (address.pending ? "Looking up address…" : "No address")}
+                  </p>
+                  <p className="text-muted-foreground font-mono text-xs">
+                    {location[0].toFixed(4)}, {location[1].toFixed(4)}
+                  </p>
+                </div>
               </div>
-            </div>
 
-            <DialogFooter className="gap-2">
-              {formState === "create" && <Button type="submit">Create</Button>}
-              {formState === "edit" && (
-                <>
-                  <Button
-                    variant="outline"
-                    type="button"
-                    onClick={() => handleDeleteMarker(form.state.values.id)}
-                    className="border-destructive text-destructive hover:bg-destructive hover:text-white"
-                  >
-                    Delete
-                  </Button>
-                  <Button type="submit">Update</Button>
-                </>
-              )}
-            </DialogFooter>
-          </form>
-        </DialogContent>
-      </Dialog>
+              <DialogFooter className="gap-2">
+                {formState === "create" && (
+                  <Button type="submit">Create</Button>
+                )}
+                {formState === "edit" && (
+                  <>
+                    <Button
+                      variant="outline"
+                      type="button"
+                      onClick={() => handleDeleteMarker(form.state.values.id)}
+                      className="border-destructive text-destructive hover:bg-destructive hover:text-white"
+                    >
+                      Delete
+                    </Button>
+                    <Button type="submit">Update</Button>
+                  </>
+                )}
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,52 @@
+import { Button } from "@/components/ui/button";
+import { ApiRequestError, fetchScenario } from "@/lib/api";
+import {
+  createFileRoute,
+  type ErrorComponentProps,
+  Link,
+  redirect,
+} from "@tanstack/react-router";
+
+// Short share links: load the saved config and open the map with it
+export const Route = createFileRoute("/s/$id")({
+  loader: async ({ params }) => {
+    const scenario = await fetchScenario(params.id);
+    throw redirect({
+      to: "/",
+      search: { config: scenario.config, scenario: scenario.id },
+      replace: true,
+    });
+  },
+  pendingComponent: ScenarioPending,
+  errorComponent: ScenarioError,
+});
+
+function ScenarioPending() {
+  return (
+    <div className="text-muted-foreground grid place-items-center text-sm">
+      Loading scenario…
+    </div>
+  );
+}
+
+function ScenarioError({ error }: ErrorComponentProps) {
+  const missing = error instanceof ApiRequestError && error.status === 404;
+
+  return (
+    <div className="grid place-items-center">
+      <div className="space-y-4 text-center">
+        <p className="font-medium">
+          {missing
+            ? "This scenario doesn't exist, or has been deleted."
+            : "The scenario could not be loaded."}
+        </p>
+        {!missing && (
+          <p className="text-muted-foreground text-sm">{error.message}</p>
+        )}
+        <Button asChild>
+          <Link to="/">Open an empty map</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
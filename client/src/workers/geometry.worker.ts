@@ -0,0 +1,23 @@
+import {
+  type GeometryRequest,
+  type GeometryResponse,
+  runGeometryTask,
+} from "@/lib/overlays";
+
+// Runs Turf set operations off the main thread; see lib/geometry.ts
+self.onmessage = (event: MessageEvent<GeometryRequest>) => {
+  const { id, task } = event.data;
+
+  let response: GeometryResponse;
+  try {
+    response = { id, ok: true, result: runGeometryTask(task) };
+  } catch (error) {
+    response = {
+      id,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  self.postMessage(response);
+};
@@ -1,15 +1,44 @@
 import { Hono } from "hono";
 import { serveStatic } from "hono/bun";
 import { logger } from "hono/logger";
+import { AppError, errorResponse } from "./errors";
+import { rateLimit } from "./rate-limit/middleware";
+import { basemapsRoute } from "./routes/basemaps";
+import { cacheRoute } from "./routes/cache";
+import { geocodeRoute } from "./routes/geocode";
 import { isochronesRoute } from "./routes/isochrones";
+import { profilesRoute } from "./routes/profiles";
+import { quotaRoute } from "./routes/quota";
+import { scenariosRoute } from "./routes/scenarios";
+import { tilesRoute } from "./routes/tiles";
 
 const app = new Hono();
 
 app.use("*", logger());
+app.use("/api/isochrones/*", rateLimit("isochrones"));
+app.use("/api/geocode/*", rateLimit("geocode"));
+app.use("/api/scenarios/*", rateLimit("scenarios"));
 
 const isochronesRoutes = app
   .basePath("/api")
-  .route("/isochrones", isochronesRoute);
+  .route("/isochrones", isochronesRoute)
+  .route("/profiles", profilesRoute)
+  .route("/geocode", geocodeRoute)
+  .route("/cache", cacheRoute)
+  .route("/quota", quotaRoute)
+  .route("/scenarios", scenariosRoute)
+  .route("/basemaps", basemapsRoute)
+  .route("/tiles", tilesRoute);
+
+app.notFound((c) =>
+  errorResponse(
+    c,
+    new AppError("not_found", `No route for ${c.req.method} ${c.req.path}`, {
+      status: 404,
+    })
+  )
+);
+app.onError((error, c) => errorResponse(c, error));
 
 app.get("*", serveStatic({ root: "./client/dist" }));
 app.get("*", serveStatic({ path: "./client/dist/index.html" }));
@@ -0,0 +1,49 @@
+import { dirname, resolve } from "node:path";
+import { BasemapConfigSchema, type BasemapConfig } from "../schemas/basemaps";
+import { DEFAULT_BASEMAP_CONFIG } from ".";
+import { createMbtilesSource } from "./mbtiles";
+import { createPmtilesSource } from "./pmtiles";
+import type { TileSource } from "./types";
+
+export const DEFAULT_BASEMAPS_CONFIG_PATH = "basemaps.json";
+
+const openTileSource = (path: string) =>
+  path.endsWith(".pmtiles")
+    ? createPmtilesSource(path)
+    : createMbtilesSource(path);
+
+// Reads the basemaps config file (BASEMAPS_CONFIG, default basemaps.json) and
+// opens the tile archives it names. Without the default file the map keeps
+// OpenStreetMap; a file that was asked for must exist, and anything wrong
+// with it stops the server from starting.
+export const loadBasemapsFromFile = async (
+  path?: string
+): Promise<{ config: BasemapConfig; sources: Map<string, TileSource> }> => {
+  const configPath = path || DEFAULT_BASEMAPS_CONFIG_PATH;
+  const file = Bun.file(configPath);
+  if (!(await file.exists())) {
+    if (path) throw new Error(`Basemaps config ${configPath} not found`);
+    return { config: DEFAULT_BASEMAP_CONFIG, sources: new Map() };
+  }
+
+  const result = BasemapConfigSchema.safeParse(await file.json());
+  if (!result.success) {
+    throw new Error(
+      `Invalid basemaps config ${configPath}: ${result.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ")}`
+    );
+  }
+
+  const sources = new Map<string, TileSource>();
+  for (const basemap of result.data.basemaps) {
+    if ("file" in basemap) {
+      sources.set(
+        basemap.id,
+        await openTileSource(resolve(dirname(configPath), basemap.file))
+      );
+    }
+  }
+
+  return { config: result.data, sources };
+};
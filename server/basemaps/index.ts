@@ -0,0 +1,63 @@
+import type { BasemapConfig, BasemapList } from "../schemas/basemaps";
+import type { TileSource } from "./types";
+
+export type { TileFormat, TileSource } from "./types";
+
+// What the map showed before basemaps were configurable, for when there's no
+// config file
+export const DEFAULT_BASEMAP_CONFIG: BasemapConfig = {
+  basemaps: [
+    {
+      id: "osm",
+      label: "OpenStreetMap",
+      url: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
+      attribution:
+        '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+      maxZoom: 19,
+    },
+  ],
+};
+
+export const TILE_CONTENT_TYPES = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  webp: "image/webp",
+} as const;
+
+// The server entrypoint loads the config file, and opens the tile archives it
+// names, at startup
+let config: BasemapConfig = DEFAULT_BASEMAP_CONFIG;
+let sources = new Map<string, TileSource>();
+
+export const getBasemapConfig = () => config;
+
+export const setBasemapConfig = (
+  next: BasemapConfig,
+  nextSources: Map<string, TileSource> = new Map()
+) => {
+  config = next;
+  sources = nextSources;
+};
+
+export const getTileSource = (id: string) => sources.get(id);
+
+// Archives on this server become URLs of the tiles route
+export const toBasemapList = ({
+  basemaps,
+  default: light,
+  dark,
+}: BasemapConfig): BasemapList => ({
+  basemaps: basemaps.map((basemap) =>
+    "file" in basemap
+      ? {
+          id: basemap.id,
+          label: basemap.label,
+          url: `/api/tiles/${basemap.id}/{z}/{x}/{y}`,
+          attribution: basemap.attribution,
+          maxZoom: basemap.maxZoom,
+        }
+      : basemap
+  ),
+  default: light ?? basemaps[0]!.id,
+  dark: dark ?? light ?? basemaps[0]!.id,
+});
@@ -0,0 +1,98 @@
+import { Database } from "bun:sqlite";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createMbtilesSource } from "./mbtiles";
+import type { TileFormat } from "./types";
+
+const decoder = new TextDecoder();
+
+// Tiles by their XYZ address; the fixture stores them TMS-style like any
+// MBTiles file, so the reader's own flip is what's under test
+const TILES: [number, number, number][] = [
+  [0, 0, 0],
+  [1, 0, 0],
+  [1, 1, 1],
+  [2, 1, 2],
+  [2, 3, 0],
+];
+
+// A minimal MBTiles file, with `format` in its metadata unless it's null
+const writeMbtiles = (path: string, format: string | null = "png") => {
+  const db = new Database(path, { create: true });
+  db.run("CREATE TABLE metadata (name TEXT, value TEXT)");
+  db.run(
+    "CREATE TABLE tiles (zoom_level INTEGER, tile_column INTEGER, tile_row INTEGER, tile_data BLOB)"
+  );
+  if (format !== null) {
+    db.run("INSERT INTO metadata VALUES ('format', ?)", [format]);
+  }
+  for (const [z, x, y] of TILES) {
+    db.run("INSERT INTO tiles VALUES (?, ?, ?, ?)", [
+      z,
+      x,
+      2 ** z - 1 - y,
+      new TextEncoder().encode(`${z}/${x}/${y}`),
+    ]);
+  }
+  db.close();
+};
+
+let directory: string;
+
+beforeAll(async () => {
+  directory = await mkdtemp(join(tmpdir(), "mbtiles-"));
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+const createSource = (file: string, format?: string | null) => {
+  const path = join(directory, file);
+  writeMbtiles(path, format);
+  return createMbtilesSource(path);
+};
+
+describe("createMbtilesSource", () => {
+  test.each([
+    ["png", "png"],
+    ["jpeg", "jpg"],
+    ["webp", "webp"],
+    [null, "png"],
+  ] as [string | null, TileFormat][])(
+    "reads the %p format from the metadata",
+    (format, expected) => {
+      const source = createSource(`${format}.mbtiles`, format);
+
+      expect(source.format).toBe(expected);
+    }
+  );
+
+  test.each(TILES)("finds tile %i/%i/%i", async (z, x, y) => {
+    const source = createSource(`tiles-${z}-${x}-${y}.mbtiles`);
+
+    const tile = await source.getTile(z, x, y);
+
+    expect(tile && decoder.decode(tile)).toBe(`${z}/${x}/${y}`);
+  });
+
+  test("returns null for tiles it doesn't hold", async () => {
+    const source = createSource("missing.mbtiles");
+
+    // 1/0/1 is only there under its TMS row
+    expect(await source.getTile(1, 0, 1)).toBeNull();
+    expect(await source.getTile(2, 0, 0)).toBeNull();
+    expect(await source.getTile(3, 0, 0)).toBeNull();
+  });
+
+  test("rejects files without raster tiles", () => {
+    const path = join(directory, "vector.mbtiles");
+    writeMbtiles(path, "pbf");
+
+    expect(() => createMbtilesSource(path)).toThrow(
+      `${path} holds "pbf" tiles; only raster tiles can be served`
+    );
+  });
+});
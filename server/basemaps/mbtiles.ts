@@ -0,0 +1,42 @@
+import { Database } from "bun:sqlite";
+import type { TileFormat, TileSource } from "./types";
+
+const FORMATS: Record<string, TileFormat> = {
+  png: "png",
+  jpg: "jpg",
+  jpeg: "jpg",
+  webp: "webp",
+};
+
+// Only imported from the Bun entrypoint since `bun:sqlite` doesn't exist
+// elsewhere
+export const createMbtilesSource = (path: string): TileSource => {
+  const db = new Database(path, { readonly: true });
+  const value =
+    db
+      .query<
+        { value: string },
+        []
+      >("SELECT value FROM metadata WHERE name = 'format'")
+      .get()?.value ?? "png";
+  const format = FORMATS[value];
+  if (!format) {
+    throw new Error(
+      `${path} holds "${value}" tiles; only raster tiles can be served`
+    );
+  }
+
+  const select = db.query<
+    { tile_data: Uint8Array<ArrayBuffer> },
+    [number, number, number]
+  >(
+    "SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?"
+  );
+
+  return {
+    format,
+    // MBTiles counts rows up from the bottom (TMS)
+    getTile: async (z, x, y) =>
+      select.get(z, x, 2 ** z - 1 - y)?.tile_data ?? null,
+  };
+};
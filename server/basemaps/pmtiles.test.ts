@@ -0,0 +1,168 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createPmtilesSource } from "./pmtiles";
+
+interface FixtureEntry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Tile ids taken from the spec's Hilbert numbering rather than computed, so
+// the reader's own conversion is what's under test. Ids 3 and 4 (1/1/1 and
+// 1/1/0) share one tile through a run.
+const TILES = [
+  { tileId: 0, runLength: 1, data: "0/0/0" },
+  { tileId: 2, runLength: 1, data: "1/0/1" },
+  { tileId: 3, runLength: 2, data: "1/1/*" },
+  { tileId: 12, runLength: 1, data: "2/1/2" },
+  { tileId: 20, runLength: 1, data: "2/3/0" },
+];
+
+const writeVarint = (value: number, out: number[]) => {
+  while (value >= 0x80) {
+    out.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  out.push(value);
+};
+
+const encodeDirectory = (entries: FixtureEntry[]) => {
+  const out: number[] = [];
+  writeVarint(entries.length, out);
+  entries.forEach((entry, index) =>
+    writeVarint(entry.tileId - (entries[index - 1]?.tileId ?? 0), out)
+  );
+  entries.forEach((entry) => writeVarint(entry.runLength, out));
+  entries.forEach((entry) => writeVarint(entry.length, out));
+  entries.forEach((entry) => writeVarint(entry.offset + 1, out));
+  return Bun.gzipSync(new Uint8Array(out));
+};
+
+// A tiny v3 archive: gzipped directories, uncompressed tiles. With `leaves`,
+// the root holds two leaf directories instead of the tiles themselves.
+const writeArchive = async (
+  path: string,
+  { leaves = false, tileType = 2 } = {}
+) => {
+  const tiles = TILES.map((tile) => encoder.encode(tile.data));
+  let offset = 0;
+  const entries = TILES.map(({ tileId, runLength }, index) => {
+    const entry = {
+      tileId,
+      runLength,
+      offset,
+      length: tiles[index]!.length,
+    };
+    offset += entry.length;
+    return entry;
+  });
+
+  let root = encodeDirectory(entries);
+  let leafData = new Uint8Array();
+  if (leaves) {
+    const first = encodeDirectory(entries.slice(0, 2));
+    const second = encodeDirectory(entries.slice(2));
+    leafData = Buffer.concat([first, second]);
+    root = encodeDirectory([
+      { tileId: 0, runLength: 0, offset: 0, length: first.length },
+      {
+        tileId: entries[2]!.tileId,
+        runLength: 0,
+        offset: first.length,
+        length: second.length,
+      },
+    ]);
+  }
+
+  const header = new Uint8Array(127);
+  const view = new DataView(header.buffer);
+  header.set(encoder.encode("PMTiles"));
+  header[7] = 3;
+  const leafOffset = header.length + root.length;
+  const tileDataOffset = leafOffset + leafData.length;
+  view.setBigUint64(8, BigInt(header.length), true);
+  view.setBigUint64(16, BigInt(root.length), true);
+  view.setBigUint64(40, BigInt(leafOffset), true);
+  view.setBigUint64(48, BigInt(leafData.length), true);
+  view.setBigUint64(56, BigInt(tileDataOffset), true);
+  view.setBigUint64(64, BigInt(offset), true);
+  header[97] = 2;
+  header[98] = 1;
+  header[99] = tileType;
+
+  await Bun.write(path, Buffer.concat([header, root, leafData, ...tiles]));
+};
+
+let directory: string;
+
+beforeAll(async () => {
+  directory = await mkdtemp(join(tmpdir(), "pmtiles-"));
+  await writeArchive(join(directory, "flat.pmtiles"));
+  await writeArchive(join(directory, "leaves.pmtiles"), { leaves: true });
+  await writeArchive(join(directory, "vector.pmtiles"), { tileType: 1 });
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+const readTile = async (file: string, [z, x, y]: [number, number, number]) => {
+  const source = await createPmtilesSource(join(directory, file));
+  const tile = await source.getTile(z, x, y);
+  return tile && decoder.decode(tile);
+};
+
+describe("createPmtilesSource", () => {
+  test("reads the tile format from the header", async () => {
+    const source = await createPmtilesSource(join(directory, "flat.pmtiles"));
+
+    expect(source.format).toBe("png");
+  });
+
+  describe.each(["flat.pmtiles", "leaves.pmtiles"])("%s", (file) => {
+    test.each([
+      [0, 0, 0],
+      [1, 0, 1],
+      [2, 1, 2],
+      [2, 3, 0],
+    ] as [number, number, number][])("finds tile %i/%i/%i", async (z, x, y) => {
+      expect(await readTile(file, [z, x, y])).toBe(`${z}/${x}/${y}`);
+    });
+
+    test("serves every tile in a run", async () => {
+      expect(await readTile(file, [1, 1, 1])).toBe("1/1/*");
+      expect(await readTile(file, [1, 1, 0])).toBe("1/1/*");
+    });
+
+    test("returns null for tiles it doesn't hold", async () => {
+      expect(await readTile(file, [1, 0, 0])).toBeNull();
+      expect(await readTile(file, [2, 0, 0])).toBeNull();
+      expect(await readTile(file, [3, 0, 0])).toBeNull();
+      expect(await readTile(file, [1, 2, 0])).toBeNull();
+    });
+  });
+
+  test("rejects archives without raster tiles", async () => {
+    const path = join(directory, "vector.pmtiles");
+
+    await expect(createPmtilesSource(path)).rejects.toThrow(
+      `${path} doesn't hold raster tiles, which are all that can be served`
+    );
+  });
+
+  test("rejects files that aren't PMTiles v3", async () => {
+    const path = join(directory, "not-pmtiles.pmtiles");
+    await Bun.write(path, new Uint8Array(127));
+
+    await expect(createPmtilesSource(path)).rejects.toThrow(
+      `${path} is not a PMTiles version 3 archive`
+    );
+  });
+});
@@ -0,0 +1,203 @@
+import type { TileFormat, TileSource } from "./types";
+
+// Reads PMTiles v3 archives, https://github.com/protomaps/PMTiles/blob/main/spec/v3/spec.md
+
+const HEADER_LENGTH = 127;
+const MAX_ZOOM = 26;
+const MAX_DIRECTORY_DEPTH = 3;
+const LEAF_CACHE_SIZE = 64;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_GZIP = 2;
+
+const TILE_TYPES: Record<number, TileFormat> = {
+  2: "png",
+  3: "jpg",
+  4: "webp",
+};
+
+interface Header {
+  rootOffset: number;
+  rootLength: number;
+  leafOffset: number;
+  tileDataOffset: number;
+  internalCompression: number;
+  tileCompression: number;
+  tileType: number;
+}
+
+interface Entry {
+  tileId: number;
+  offset: number;
+  length: number;
+  // 0 for a leaf directory rather than tile data
+  runLength: number;
+}
+
+const readHeader = (bytes: Uint8Array, path: string): Header => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const magic = new TextDecoder().decode(bytes.subarray(0, 7));
+  if (magic !== "PMTiles" || bytes[7] !== 3) {
+    throw new Error(`${path} is not a PMTiles version 3 archive`);
+  }
+  const u64 = (offset: number) => Number(view.getBigUint64(offset, true));
+
+  return {
+    rootOffset: u64(8),
+    rootLength: u64(16),
+    leafOffset: u64(40),
+    tileDataOffset: u64(56),
+    internalCompression: bytes[97]!,
+    tileCompression: bytes[98]!,
+    tileType: bytes[99]!,
+  };
+};
+
+const decompress = (
+  bytes: Uint8Array<ArrayBuffer>,
+  compression: number,
+  path: string
+) => {
+  if (compression === COMPRESSION_NONE) return bytes;
+  if (compression === COMPRESSION_GZIP) return Bun.gunzipSync(bytes);
+  throw new Error(`${path} uses a compression this server can't read`);
+};
+
+// Unsigned LEB128; Number arithmetic, as offsets can pass 2^32
+const readVarints = (bytes: Uint8Array) => {
+  let position = 0;
+  return () => {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = bytes[position++];
+      if (byte === undefined) throw new Error("Truncated PMTiles directory");
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+    }
+  };
+};
+
+const readDirectory = (bytes: Uint8Array): Entry[] => {
+  const next = readVarints(bytes);
+  const count = next();
+  const entries: Entry[] = [];
+
+  let tileId = 0;
+  for (let i = 0; i < count; i++) {
+    tileId += next();
+    entries.push({ tileId, offset: 0, length: 0, runLength: 0 });
+  }
+  for (const entry of entries) entry.runLength = next();
+  for (const entry of entries) entry.length = next();
+  entries.forEach((entry, i) => {
+    const value = next();
+    // 0 means straight after the previous entry
+    const previous = entries[i - 1];
+    entry.offset =
+      value === 0 && previous ? previous.offset + previous.length : value - 1;
+  });
+
+  return entries;
+};
+
+// Tiles are numbered zoom by zoom, along a Hilbert curve within each zoom
+const toTileId = (z: number, x: number, y: number) => {
+  let id = (4 ** z - 1) / 3;
+  for (let s = 2 ** (z - 1); s >= 1; s /= 2) {
+    const rx = (x & s) > 0 ? 1 : 0;
+    const ry = (y & s) > 0 ? 1 : 0;
+    id += s * s * ((3 * rx) ^ ry);
+    if (ry === 0) {
+      if (rx === 1) {
+        x = s - 1 - x;
+        y = s - 1 - y;
+      }
+      [x, y] = [y, x];
+    }
+  }
+  return id;
+};
+
+// The last entry starting at or before the tile
+const findEntry = (entries: Entry[], tileId: number) => {
+  let low = 0;
+  let high = entries.length - 1;
+  let found: Entry | undefined;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const entry = entries[middle]!;
+    if (entry.tileId <= tileId) {
+      found = entry;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+};
+
+// Only imported from the Bun entrypoint, for `Bun.file` and `Bun.gunzipSync`
+export const createPmtilesSource = async (
+  path: string
+): Promise<TileSource> => {
+  const file = Bun.file(path);
+  const read = async (offset: number, length: number) =>
+    new Uint8Array(await file.slice(offset, offset + length).arrayBuffer());
+
+  const header = readHeader(await read(0, HEADER_LENGTH), path);
+  const format = TILE_TYPES[header.tileType];
+  if (!format) {
+    throw new Error(
+      `${path} doesn't hold raster tiles, which are all that can be served`
+    );
+  }
+
+  const readDirectoryAt = async (offset: number, length: number) =>
+    readDirectory(
+      decompress(await read(offset, length), header.internalCompression, path)
+    );
+  const root = await readDirectoryAt(header.rootOffset, header.rootLength);
+
+  // Leaf directories by offset, oldest dropped first
+  const leaves = new Map<number, Entry[]>();
+  const getLeaf = async (entry: Entry) => {
+    const offset = header.leafOffset + entry.offset;
+    let leaf = leaves.get(offset);
+    if (!leaf) {
+      leaf = await readDirectoryAt(offset, entry.length);
+      leaves.set(offset, leaf);
+      if (leaves.size > LEAF_CACHE_SIZE) {
+        leaves.delete(leaves.keys().next().value!);
+      }
+    }
+    return leaf;
+  };
+
+  return {
+    format,
+    getTile: async (z, x, y) => {
+      if (z > MAX_ZOOM || x >= 2 ** z || y >= 2 ** z) return null;
+
+      const tileId = toTileId(z, x, y);
+      let directory = root;
+      for (let depth = 0; depth <= MAX_DIRECTORY_DEPTH; depth++) {
+        const entry = findEntry(directory, tileId);
+        if (!entry) return null;
+        if (entry.runLength === 0) {
+          directory = await getLeaf(entry);
+          continue;
+        }
+        if (tileId >= entry.tileId + entry.runLength) return null;
+
+        const tile = await read(
+          header.tileDataOffset + entry.offset,
+          entry.length
+        );
+        return decompress(tile, header.tileCompression, path);
+      }
+      return null;
+    },
+  };
+};
@@ -0,0 +1,12 @@
+export type TileFormat = "png" | "jpg" | "webp";
+
+// A tile archive on disk, read one tile at a time
+export interface TileSource {
+  format: TileFormat;
+  // The tile in XYZ numbering, or null when the archive doesn't have it
+  getTile(
+    z: number,
+    x: number,
+    y: number
+  ): Promise<Uint8Array<ArrayBuffer> | null>;
+}
@@ -0,0 +1,26 @@
+import { readNumberVar } from "../env";
+import { createMemoryCache } from "./memory";
+import { createSqliteCache } from "./sqlite";
+import type { CacheStore } from "./types";
+
+type Env = Record<string, string | undefined>;
+
+// Picks the cache store from CACHE_STORE (memory or sqlite) and its limits
+export const createCacheFromEnv = (env: Env): CacheStore => {
+  const options = {
+    maxEntries: readNumberVar(env, "CACHE_MAX_ENTRIES", undefined, {
+      integer: true,
+    }),
+    maxBytes: readNumberVar(env, "CACHE_MAX_BYTES", undefined),
+    ttl: readNumberVar(env, "CACHE_TTL", undefined),
+  };
+
+  if (env.CACHE_STORE === "sqlite") {
+    return createSqliteCache({
+      ...options,
+      path: env.CACHE_SQLITE_PATH || undefined,
+    });
+  }
+
+  return createMemoryCache(options);
+};
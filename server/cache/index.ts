@@ -0,0 +1,14 @@
+import { createMemoryCache } from "./memory";
+import type { CacheStore } from "./types";
+
+export { createMemoryCache } from "./memory";
+export type { CacheStats, CacheStore } from "./types";
+
+// The server entrypoint may swap in another store (e.g. SQLite) at startup
+let store: CacheStore = createMemoryCache();
+
+export const getCacheStore = () => store;
+
+export const setCacheStore = (next: CacheStore) => {
+  store = next;
+};
@@ -0,0 +1,82 @@
+import type { CacheOptions, CacheStats, CacheStore } from "./types";
+
+export const DEFAULT_CACHE_TTL = 60 * 60 * 1000; // 1 hour in ms
+export const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+export const DEFAULT_CACHE_MAX_BYTES = 50 * 1024 * 1024; // 50 MB
+
+const encoder = new TextEncoder();
+
+export const getByteSize = (value: string) => encoder.encode(value).length;
+
+// Least-recently-used cache; a Map keeps insertion order, so re-inserting an
+// entry on read moves it to the back and the front is always evicted first
+export const createMemoryCache = ({
+  maxEntries = DEFAULT_CACHE_MAX_ENTRIES,
+  maxBytes = DEFAULT_CACHE_MAX_BYTES,
+  ttl = DEFAULT_CACHE_TTL,
+}: CacheOptions = {}): CacheStore => {
+  const entries = new Map<
+    string,
+    { value: string; size: number; timestamp: number }
+  >();
+  let bytes = 0;
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    bytes -= entry.size;
+    entries.delete(key);
+  };
+
+  const evict = () => {
+    while (entries.size > maxEntries || bytes > maxBytes) {
+      const oldest = entries.keys().next();
+      if (oldest.done) break;
+      remove(oldest.value);
+      evictions++;
+    }
+  };
+
+  return {
+    get: async <T>(key: string) => {
+      const entry = entries.get(key);
+      if (!entry || Date.now() - entry.timestamp >= ttl) {
+        remove(key);
+        misses++;
+        return null;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      hits++;
+      return JSON.parse(entry.value) as T;
+    },
+    set: async (key, value) => {
+      const json = JSON.stringify(value);
+      remove(key);
+      const size = getByteSize(json);
+      // Making room for it would evict everything else, and then it
+      if (size > maxBytes) return;
+      entries.set(key, { value: json, size, timestamp: Date.now() });
+      bytes += size;
+      evict();
+    },
+    clear: async () => {
+      entries.clear();
+      bytes = 0;
+    },
+    stats: async (): Promise<CacheStats> => ({
+      store: "memory",
+      entries: entries.size,
+      bytes,
+      maxEntries,
+      maxBytes,
+      ttl,
+      hits,
+      misses,
+      evictions,
+    }),
+  };
+};
@@ -0,0 +1,119 @@
+import { Database } from "bun:sqlite";
+import {
+  DEFAULT_CACHE_MAX_BYTES,
+  DEFAULT_CACHE_MAX_ENTRIES,
+  DEFAULT_CACHE_TTL,
+  getByteSize,
+} from "./memory";
+import type { CacheOptions, CacheStats, CacheStore } from "./types";
+
+export const DEFAULT_CACHE_SQLITE_PATH = "cache.sqlite";
+
+// Same LRU policy as the memory store, but entries survive restarts. Only
+// imported from the Bun entrypoint since `bun:sqlite` doesn't exist elsewhere.
+export const createSqliteCache = ({
+  path = DEFAULT_CACHE_SQLITE_PATH,
+  maxEntries = DEFAULT_CACHE_MAX_ENTRIES,
+  maxBytes = DEFAULT_CACHE_MAX_BYTES,
+  ttl = DEFAULT_CACHE_TTL,
+}: CacheOptions & { path?: string } = {}): CacheStore => {
+  const db = new Database(path, { create: true });
+  db.run("PRAGMA journal_mode = WAL");
+  db.run(`
+    CREATE TABLE IF NOT EXISTS cache (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      accessed_at INTEGER NOT NULL
+    )
+  `);
+  db.run("CREATE INDEX IF NOT EXISTS cache_accessed_at ON cache (accessed_at)");
+
+  const selectEntry = db.query<{ value: string; created_at: number }, [string]>(
+    "SELECT value, created_at FROM cache WHERE key = ?"
+  );
+  const touchEntry = db.query<unknown, [number, string]>(
+    "UPDATE cache SET accessed_at = ? WHERE key = ?"
+  );
+  const deleteEntry = db.query<unknown, [string]>(
+    "DELETE FROM cache WHERE key = ?"
+  );
+  const upsertEntry = db.query<
+    unknown,
+    [string, string, number, number, number]
+  >(
+    `INSERT OR REPLACE INTO cache (key, value, size, created_at, accessed_at)
+     VALUES (?, ?, ?, ?, ?)`
+  );
+  const selectTotals = db.query<{ entries: number; bytes: number }, []>(
+    "SELECT COUNT(*) AS entries, COALESCE(SUM(size), 0) AS bytes FROM cache"
+  );
+  const deleteOldest = db.query<unknown, []>(
+    `DELETE FROM cache WHERE key =
+     (SELECT key FROM cache ORDER BY accessed_at ASC LIMIT 1)`
+  );
+  const deleteExpired = db.query<unknown, [number]>(
+    "DELETE FROM cache WHERE created_at < ?"
+  );
+
+  // accessed_at must be strictly increasing for LRU order to hold when
+  // several reads land in the same millisecond
+  let clock = 0;
+  const tick = () => (clock = Math.max(clock + 1, Date.now()));
+
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+
+  const evict = db.transaction(() => {
+    deleteExpired.run(Date.now() - ttl);
+    let totals = selectTotals.get()!;
+    while (
+      totals.entries > 0 &&
+      (totals.entries > maxEntries || totals.bytes > maxBytes)
+    ) {
+      deleteOldest.run();
+      evictions++;
+      totals = selectTotals.get()!;
+    }
+  });
+
+  return {
+    get: async <T>(key: string) => {
+      const entry = selectEntry.get(key);
+      if (!entry || Date.now() - entry.created_at >= ttl) {
+        if (entry) deleteEntry.run(key);
+        misses++;
+        return null;
+      }
+      touchEntry.run(tick(), key);
+      hits++;
+      return JSON.parse(entry.value) as T;
+    },
+    set: async (key, value) => {
+      const json = JSON.stringify(value);
+      const size = getByteSize(json);
+      // Making room for it would evict everything else, and then it
+      if (size > maxBytes) {
+        deleteEntry.run(key);
+        return;
+      }
+      upsertEntry.run(key, json, size, Date.now(), tick());
+      evict();
+    },
+    clear: async () => {
+      db.run("DELETE FROM cache");
+    },
+    stats: async (): Promise<CacheStats> => ({
+      store: "sqlite",
+      ...selectTotals.get()!,
+      maxEntries,
+      maxBytes,
+      ttl,
+      hits,
+      misses,
+      evictions,
+    }),
+  };
+};
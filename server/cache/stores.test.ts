@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { createMemoryCache } from "./memory";
+import { createSqliteCache } from "./sqlite";
+import type { CacheOptions, CacheStore } from "./types";
+
+// Both stores follow the same policy, so they share one suite
+const stores: [string, (options: CacheOptions) => CacheStore][] = [
+  ["memory", createMemoryCache],
+  ["sqlite", (options) => createSqliteCache({ ...options, path: ":memory:" })],
+];
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe.each(stores)("%s cache", (_, createCache) => {
+  test("round-trips values as JSON", async () => {
+    const cache = createCache({});
+    await cache.set("a", { value: [1, 2] });
+
+    expect(await cache.get<{ value: number[] }>("a")).toEqual({
+      value: [1, 2],
+    });
+    expect(await cache.get("missing")).toBeNull();
+  });
+
+  test("evicts the least recently used entry first", async () => {
+    const cache = createCache({ maxEntries: 2 });
+    await cache.set("a", 1);
+    await cache.set("b", 2);
+    // Reading `a` makes `b` the oldest
+    await cache.get("a");
+    await cache.set("c", 3);
+
+    expect(await cache.get("b")).toBeNull();
+    expect(await cache.get<number>("a")).toBe(1);
+    expect(await cache.get<number>("c")).toBe(3);
+  });
+
+  test("evicts until the total size fits within maxBytes", async () => {
+    // Each value is 10 bytes of JSON
+    const cache = createCache({ maxBytes: 25 });
+    await cache.set("a", "12345678");
+    await cache.set("b", "12345678");
+    await cache.set("c", "12345678");
+
+    expect(await cache.get("a")).toBeNull();
+    expect(await cache.stats()).toMatchObject({ entries: 2, bytes: 20 });
+  });
+
+  test("doesn't store a value larger than maxBytes", async () => {
+    const cache = createCache({ maxBytes: 25 });
+    await cache.set("a", "12345678");
+    await cache.set("b", "old");
+    await cache.set("b", "x".repeat(30));
+
+    expect(await cache.get("b")).toBeNull();
+    expect(await cache.get<string>("a")).toBe("12345678");
+    expect(await cache.stats()).toMatchObject({
+      entries: 1,
+      bytes: 10,
+      evictions: 0,
+    });
+  });
+
+  test("expires entries after the TTL", async () => {
+    const start = new Date("2026-01-01T00:00:00Z");
+    setSystemTime(start);
+    const cache = createCache({ ttl: 1000 });
+    await cache.set("a", 1);
+
+    setSystemTime(new Date(start.getTime() + 999));
+    expect(await cache.get<number>("a")).toBe(1);
+
+    setSystemTime(new Date(start.getTime() + 1000));
+    expect(await cache.get("a")).toBeNull();
+    expect((await cache.stats()).entries).toBe(0);
+  });
+
+  test("counts hits, misses and evictions", async () => {
+    const cache = createCache({ maxEntries: 1, maxBytes: 100, ttl: 5000 });
+    await cache.set("a", 1);
+    await cache.get("a");
+    await cache.get("a");
+    await cache.get("b");
+    await cache.set("b", 2);
+
+    expect(await cache.stats()).toMatchObject({
+      entries: 1,
+      bytes: 1,
+      maxEntries: 1,
+      maxBytes: 100,
+      ttl: 5000,
+      hits: 2,
+      misses: 1,
+      evictions: 1,
+    });
+  });
+
+  test("clears every entry", async () => {
+    const cache = createCache({});
+    await cache.set("a", 1);
+    await cache.set("b", 2);
+    await cache.clear();
+
+    expect(await cache.stats()).toMatchObject({ entries: 0, bytes: 0 });
+    expect(await cache.get("a")).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+export type CacheStoreName = "memory" | "sqlite";
+
+export interface CacheStats {
+  store: CacheStoreName;
+  entries: number;
+  bytes: number;
+  maxEntries: number;
+  maxBytes: number;
+  ttl: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+export interface CacheOptions {
+  maxEntries?: number;
+  maxBytes?: number;
+  ttl?: number; // in ms
+}
+
+// Values are stored as JSON so every store behaves the same way
+export interface CacheStore {
+  get: <T = unknown>(key: string) => Promise<T | null>;
+  set: (key: string, value: unknown) => Promise<void>;
+  clear: () => Promise<void>;
+  stats: () => Promise<CacheStats>;
+}
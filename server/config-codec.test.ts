@@ -0,0 +1,146 @@
+import { describe, expect, test } from "bun:test";
+import {
+  CONFIG_VERSION,
+  ConfigDecodeError,
+  decodeConfig,
+  encodeConfig,
+  type ConfigCodecItem,
+} from "./config-codec";
+
+const minimal: ConfigCodecItem = {
+  id: "a1",
+  location: [8.681495, 49.41461],
+  transport: "driving-car",
+  ranges: [300, 600],
+  rangeType: "time",
+  units: "km",
+};
+
+const full: ConfigCodecItem = {
+  id: "b2",
+  location: [-0.1278, 51.5074],
+  transport: "foot-walking",
+  ranges: [1000],
+  rangeType: "distance",
+  units: "mi",
+  name: "Zürich → Café ☕",
+  notes: 'Line one\nline two, with "quotes" and emoji 🚲',
+  color: "#ff8800",
+  hidden: true,
+};
+
+// A v1 link as the app wrote it: plain base64 of the item objects
+const encodeV1 = (items: unknown[]) => btoa(JSON.stringify(items));
+
+describe("config codec", () => {
+  test("round-trips markers through the current version", () => {
+    const encoded = encodeConfig([minimal, full]);
+
+    expect(encoded).toStartWith(`${CONFIG_VERSION}.`);
+    expect(decodeConfig(encoded)).toEqual([minimal, full]);
+  });
+
+  test("writes URL-safe base64 without padding", () => {
+    // Enough non-ASCII text to produce "+", "/" and "=" in plain base64
+    const encoded = encodeConfig([
+      { ...full, name: "ÿÿÿ~~~???>>>", notes: "é".repeat(101) },
+    ]);
+
+    expect(encoded.slice(2)).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeConfig(encoded)).toEqual([
+      { ...full, name: "ÿÿÿ~~~???>>>", notes: "é".repeat(101) },
+    ]);
+  });
+
+  test("leaves unset optional fields out of the link", () => {
+    const encoded = encodeConfig([minimal]);
+    const json = atob(encoded.slice(2).replace(/-/g, "+").replace(/_/g, "/"));
+
+    expect(JSON.parse(json)).toEqual([
+      ["a1", 8.681495, 49.41461, "driving-car", [300, 600], 0, 0],
+    ]);
+  });
+
+  test("rounds coordinates to six decimal places", () => {
+    const [item] = decodeConfig(
+      encodeConfig([{ ...minimal, location: [8.6814951234, 49.4146109876] }])
+    );
+
+    expect(item).toMatchObject({ location: [8.681495, 49.414611] });
+  });
+
+  test("reads v1 links with a single range", () => {
+    const encoded = encodeV1([
+      {
+        id: "old",
+        location: [8.68, 49.41],
+        transport: "cycling-regular",
+        range: 900,
+        rangeType: "time",
+        units: "km",
+      },
+    ]);
+
+    expect(decodeConfig(encoded)).toEqual([
+      {
+        id: "old",
+        location: [8.68, 49.41],
+        transport: "cycling-regular",
+        ranges: [900],
+        rangeType: "time",
+        units: "km",
+      },
+    ]);
+  });
+
+  test("keeps `ranges` on v1 links that already had them", () => {
+    const item = {
+      id: "newer",
+      location: [8.68, 49.41],
+      transport: "driving-car",
+      ranges: [300, 600],
+      range: 300,
+    };
+
+    expect(decodeConfig(encodeV1([item]))).toEqual([
+      {
+        id: "newer",
+        location: [8.68, 49.41],
+        transport: "driving-car",
+        ranges: [300, 600],
+      },
+    ]);
+  });
+
+  test("rejects links from a newer version of the app", () => {
+    const decode = () => decodeConfig(`${CONFIG_VERSION + 1}.W10`);
+
+    expect(decode).toThrow(ConfigDecodeError);
+    expect(decode).toThrow(
+      `The config was saved by a newer version (${CONFIG_VERSION + 1}) of the app`
+    );
+  });
+
+  test.each([
+    ["v1 that isn't base64", "not base64!"],
+    ["v1 that isn't JSON", btoa("{")],
+    ["v2 that isn't UTF-8", `2.${btoa("\xff\xfe").replace(/=+$/, "")}`],
+    ["v2 that isn't JSON", "2.e30x"],
+  ])("rejects %s", (_, value) => {
+    expect(() => decodeConfig(value)).toThrow(
+      new ConfigDecodeError("The config is not valid encoded JSON")
+    );
+  });
+
+  test("rejects JSON that isn't a list", () => {
+    expect(() => decodeConfig(encodeV1({} as unknown[]))).toThrow(
+      "The config is not a list of markers"
+    );
+  });
+
+  test("returns items it can't read unchecked, for the caller to drop", () => {
+    const encoded = `2.${btoa(JSON.stringify([{ id: 1 }, "x"]))}`;
+
+    expect(decodeConfig(encoded)).toEqual([{ id: 1 }, "x"]);
+  });
+});
@@ -0,0 +1,154 @@
+// The map's markers as stored in its `config` search param. Shared by the
+// client, which reads and writes the URL, and the export endpoint, which
+// takes the same param. Decoding only restores the latest shape; each side
+// validates the items with its own schema.
+//
+// Version 1: base64 of the JSON item objects (Latin-1 only)
+// Version 2: "2." + base64url of UTF-8 JSON tuples, see `toTuple`
+
+export const CONFIG_VERSION = 2;
+
+export interface ConfigCodecItem {
+  id: string;
+  location: [number, number];
+  transport: string;
+  ranges: number[];
+  rangeType: "time" | "distance";
+  units: "km" | "mi";
+  name?: string;
+  notes?: string;
+  color?: string;
+  hidden?: boolean;
+}
+
+type ConfigTuple = [
+  id: string,
+  lon: number,
+  lat: number,
+  transport: string,
+  ranges: number[],
+  rangeType: 0 | 1,
+  units: 0 | 1,
+  name?: string | null,
+  notes?: string | null,
+  color?: string | null,
+  hidden?: 1 | null,
+];
+
+export class ConfigDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigDecodeError";
+  }
+}
+
+// About 10 cm, plenty for a marker
+const roundCoordinate = (value: number) => Number(value.toFixed(6));
+
+const toTuple = (item: ConfigCodecItem): ConfigTuple => {
+  const tuple: ConfigTuple = [
+    item.id,
+    roundCoordinate(item.location[0]),
+    roundCoordinate(item.location[1]),
+    item.transport,
+    item.ranges,
+    item.rangeType === "distance" ? 1 : 0,
+    item.units === "mi" ? 1 : 0,
+    item.name ?? null,
+    item.notes ?? null,
+    item.color ?? null,
+    item.hidden ? 1 : null,
+  ];
+  // Optional fields at the end cost nothing when unset
+  while (tuple.length > 7 && tuple[tuple.length - 1] === null) tuple.pop();
+  return tuple;
+};
+
+const fromTuple = (tuple: unknown): unknown => {
+  if (!Array.isArray(tuple)) return tuple;
+  const [
+    id,
+    lon,
+    lat,
+    transport,
+    ranges,
+    rangeType,
+    units,
+    name,
+    notes,
+    color,
+    hidden,
+  ] = tuple;
+  return {
+    id,
+    location: [lon, lat],
+    transport,
+    ranges,
+    rangeType: rangeType === 1 ? "distance" : "time",
+    units: units === 1 ? "mi" : "km",
+    ...(name != null && { name }),
+    ...(notes != null && { notes }),
+    ...(color != null && { color }),
+    ...(hidden === 1 && { hidden: true }),
+  };
+};
+
+// Links from before multiple ranges carry a single `range`
+const migrateV1Item = (item: unknown) => {
+  if (item && typeof item === "object" && "range" in item) {
+    const { range, ...rest } = item as { range: unknown };
+    return "ranges" in rest ? rest : { ...rest, ranges: [range] };
+  }
+  return item;
+};
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+};
+
+const parseJson = (decode: () => string): unknown => {
+  try {
+    return JSON.parse(decode());
+  } catch {
+    throw new ConfigDecodeError("The config is not valid encoded JSON");
+  }
+};
+
+export const encodeConfig = (items: ConfigCodecItem[]) =>
+  `${CONFIG_VERSION}.${toBase64Url(JSON.stringify(items.map(toTuple)))}`;
+
+// Throws a ConfigDecodeError when the value can't be read at all; the items
+// themselves are returned unchecked
+export const decodeConfig = (value: string): unknown[] => {
+  const match = value.match(/^(\d+)\.(.*)$/s);
+  const version = match ? Number(match[1]) : 1;
+  if (version > CONFIG_VERSION) {
+    throw new ConfigDecodeError(
+      `The config was saved by a newer version (${version}) of the app`
+    );
+  }
+
+  const json =
+    version === 1
+      ? parseJson(() => atob(value))
+      : parseJson(() => fromBase64Url(match![2]!));
+  if (!Array.isArray(json)) {
+    throw new ConfigDecodeError("The config is not a list of markers");
+  }
+
+  return version === 1 ? json.map(migrateV1Item) : json.map(fromTuple);
+};
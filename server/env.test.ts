@@ -0,0 +1,44 @@
+import { afterAll, afterEach, describe, expect, spyOn, test } from "bun:test";
+import { readNumberVar } from "./env";
+
+const warn = spyOn(console, "warn").mockImplementation(() => {});
+
+afterEach(() => {
+  warn.mockClear();
+});
+
+afterAll(() => {
+  warn.mockRestore();
+});
+
+describe("readNumberVar", () => {
+  test("reads numbers, trimming whitespace", () => {
+    expect(readNumberVar({ LIMIT: " 42 " }, "LIMIT", 10)).toBe(42);
+    expect(readNumberVar({ LIMIT: "0.5" }, "LIMIT", 10)).toBe(0.5);
+  });
+
+  test("falls back quietly when unset or empty", () => {
+    expect(readNumberVar({}, "LIMIT", 10)).toBe(10);
+    expect(readNumberVar({ LIMIT: "" }, "LIMIT", undefined)).toBeUndefined();
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  test.each([
+    ["not a number", "abc", {}],
+    ["infinite", "Infinity", {}],
+    ["below the minimum", "0", { min: 1 }],
+    ["negative", "-5", {}],
+    ["fractional where an integer is needed", "2.5", { integer: true }],
+  ])("falls back with a warning when %s", (_, value, options) => {
+    expect(readNumberVar({ LIMIT: value }, "LIMIT", 10, options)).toBe(10);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]?.[0]).toStartWith(`Ignoring LIMIT=${value}`);
+  });
+
+  test("warns once per bad value", () => {
+    readNumberVar({ OTHER: "typo" }, "OTHER", 1);
+    readNumberVar({ OTHER: "typo" }, "OTHER", 1);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,33 @@
+type Env = Record<string, string | undefined>;
+
+const warned = new Set<string>();
+
+// Reads a numeric variable, falling back when it's unset. A value that isn't
+// a number in range falls back too, with a warning, rather than turning into
+// NaN and quietly switching off whatever limit it sets.
+export const readNumberVar = <F extends number | undefined>(
+  vars: Env,
+  name: string,
+  fallback: F,
+  { min = 0, integer = false }: { min?: number; integer?: boolean } = {}
+): number | F => {
+  const value = vars[name]?.trim();
+  if (!value) return fallback;
+
+  const number = Number(value);
+  if (
+    Number.isFinite(number) &&
+    number >= min &&
+    (!integer || Number.isInteger(number))
+  ) {
+    return number;
+  }
+
+  if (!warned.has(`${name}=${value}`)) {
+    warned.add(`${name}=${value}`);
+    console.warn(
+      `Ignoring ${name}=${value}: expected ${integer ? "an integer" : "a number"} of at least ${min}; using ${fallback ?? "the default"}`
+    );
+  }
+  return fallback;
+};
@@ -0,0 +1,157 @@
+import type { Context } from "hono";
+import { HTTPException } from "hono/http-exception";
+
+export type ErrorCode =
+  | "validation_error"
+  | "not_found"
+  | "unauthorized"
+  | "provider_not_configured"
+  | "rate_limited"
+  | "quota_exceeded"
+  | "upstream_rejected"
+  | "upstream_error"
+  | "upstream_unavailable"
+  | "upstream_timeout"
+  | "upstream_invalid_response"
+  | "internal_error";
+
+export type ErrorStatus = 400 | 401 | 404 | 422 | 429 | 500 | 502 | 504;
+
+// The body of every error response, shared with the client via the RPC types.
+// `retryable` tells the client whether trying again later can succeed;
+// `retryAfter` (seconds) is set when the server knows how long to wait.
+export interface ApiError {
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+  retryAfter?: number;
+  details?: unknown;
+}
+
+export interface ErrorEnvelope {
+  error: ApiError;
+}
+
+export class AppError extends Error {
+  readonly code: ErrorCode;
+  readonly status: ErrorStatus;
+  readonly retryable: boolean;
+  readonly retryAfter?: number;
+  readonly details?: unknown;
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    options: {
+      status: ErrorStatus;
+      retryable?: boolean;
+      retryAfter?: number;
+      details?: unknown;
+    }
+  ) {
+    super(message);
+    this.name = "AppError";
+    this.code = code;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.retryAfter = options.retryAfter;
+    this.details = options.details;
+  }
+}
+
+// Raised when a routing engine cannot be reached or replies with something
+// we can't use
+export class UpstreamError extends AppError {
+  readonly upstreamStatus?: number;
+
+  constructor(
+    message: string,
+    {
+      code = "upstream_error",
+      status = 502,
+      retryable = true,
+      upstreamStatus,
+    }: {
+      code?: ErrorCode;
+      status?: ErrorStatus;
+      retryable?: boolean;
+      upstreamStatus?: number;
+    } = {}
+  ) {
+    super(code, message, { status, retryable });
+    this.name = "UpstreamError";
+    this.upstreamStatus = upstreamStatus;
+  }
+}
+
+// Raised when a request asks for a provider that is missing its configuration
+export class ProviderConfigError extends AppError {
+  constructor(message: string) {
+    super("provider_not_configured", message, { status: 400 });
+    this.name = "ProviderConfigError";
+  }
+}
+
+// Raised when an upstream quota is exhausted. `retryAfter` is in seconds,
+// ready for the Retry-After header.
+export class QuotaError extends AppError {
+  declare readonly retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super("quota_exceeded", message, {
+      status: 429,
+      retryable: true,
+      retryAfter,
+    });
+    this.name = "QuotaError";
+  }
+}
+
+const httpExceptionCodes: Partial<Record<number, ErrorCode>> = {
+  400: "validation_error",
+  401: "unauthorized",
+  404: "not_found",
+  429: "rate_limited",
+};
+
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof AppError) {
+    return {
+      code: error.code,
+      message: error.message,
+      retryable: error.retryable,
+      retryAfter: error.retryAfter,
+      details: error.details,
+    };
+  }
+  if (error instanceof HTTPException) {
+    return {
+      code: httpExceptionCodes[error.status] ?? "internal_error",
+      message:
+        error.message ||
+        (error.status === 401 ? "Unauthorized" : "Request failed"),
+      retryable: false,
+    };
+  }
+  return {
+    code: "internal_error",
+    message: (error as Error)?.message ?? "Unexpected error",
+    retryable: true,
+  };
+};
+
+export const getErrorStatus = (error: unknown): ErrorStatus => {
+  if (error instanceof AppError) return error.status;
+  if (error instanceof HTTPException && error.status in httpExceptionCodes) {
+    return error.status as ErrorStatus;
+  }
+  return 500;
+};
+
+export const errorResponse = (c: Context, error: unknown) => {
+  const body: ErrorEnvelope = { error: toApiError(error) };
+  if (body.error.retryAfter !== undefined) {
+    c.header("Retry-After", String(body.error.retryAfter));
+  }
+  return c.json(body, getErrorStatus(error));
+};
@@ -0,0 +1,80 @@
+import type {
+  Coordinate,
+  Feature,
+  Profile,
+  RangeType,
+} from "../schemas/isochrones";
+import type {
+  ExportCollection,
+  ExportFeature,
+  ExportGeometry,
+  ExportProperties,
+} from "./types";
+
+export interface ExportMarker {
+  id: string;
+  location: Coordinate;
+  transport: Profile;
+  rangeType: RangeType;
+  ranges: number[];
+  name?: string;
+  notes?: string;
+  color?: string;
+}
+
+const rangeUnits = { time: "s", distance: "m" };
+
+export const markerFeature = (marker: ExportMarker): ExportFeature => ({
+  type: "Feature",
+  geometry: { type: "Point", coordinates: marker.location },
+  properties: {
+    kind: "marker",
+    name: marker.name || `${marker.transport} marker`,
+    marker_id: marker.id,
+    transport: marker.transport,
+    range_type: marker.rangeType,
+    ranges: marker.ranges.join(","),
+    notes: marker.notes || null,
+    color: marker.color || null,
+  },
+});
+
+// Keeps the provider's group_index and value alongside the marker they
+// belong to
+export const isochroneFeature = (
+  marker: Pick<ExportMarker, "id" | "transport" | "rangeType" | "name">,
+  feature: Pick<Feature, "geometry" | "properties">
+): ExportFeature => ({
+  type: "Feature",
+  geometry: feature.geometry,
+  properties: {
+    kind: "isochrone",
+    name: `${marker.name || marker.transport} ${feature.properties.value} ${rangeUnits[marker.rangeType]}`,
+    marker_id: marker.id,
+    transport: marker.transport,
+    range_type: marker.rangeType,
+    group_index: feature.properties.group_index,
+    value: feature.properties.value,
+  },
+});
+
+// Intersections and other shapes derived from several markers' isochrones
+export const overlayFeature = (
+  kind: string,
+  markerIds: string[],
+  geometry: ExportGeometry,
+  properties: ExportProperties = {}
+): ExportFeature => ({
+  type: "Feature",
+  geometry,
+  properties: {
+    kind,
+    name: kind,
+    marker_ids: markerIds.join(","),
+    ...properties,
+  },
+});
+
+export const featureCollection = (
+  features: ExportFeature[]
+): ExportCollection => ({ type: "FeatureCollection", features });
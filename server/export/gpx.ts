@@ -0,0 +1,45 @@
+import type { ExportCollection, ExportFeature, Position } from "./types";
+import { describeProperties, escapeXml } from "./xml";
+
+const details = ({ properties }: ExportFeature) =>
+  `<name>${escapeXml(String(properties.name ?? ""))}</name><desc>${escapeXml(describeProperties(properties))}</desc><type>${escapeXml(String(properties.kind ?? ""))}</type>`;
+
+const point = (tag: string, [lon, lat]: Position, content = "") =>
+  `<${tag} lat="${lat}" lon="${lon}">${content}</${tag}>`;
+
+// GPX has no polygons, so each ring becomes a segment of a closed track
+const track = (feature: ExportFeature) => {
+  const rings =
+    feature.geometry.type === "Polygon"
+      ? feature.geometry.coordinates
+      : feature.geometry.type === "MultiPolygon"
+        ? feature.geometry.coordinates.flat()
+        : [];
+  const segments = rings
+    .map(
+      (ring) =>
+        `<trkseg>${ring.map((position) => point("trkpt", position)).join("")}</trkseg>`
+    )
+    .join("");
+  return `<trk>${details(feature)}${segments}</trk>`;
+};
+
+export const encodeGpx = (collection: ExportCollection) => {
+  const waypoints = collection.features.flatMap((feature) =>
+    feature.geometry.type === "Point"
+      ? [point("wpt", feature.geometry.coordinates, details(feature))]
+      : []
+  );
+  const tracks = collection.features
+    .filter((feature) => feature.geometry.type !== "Point")
+    .map(track);
+
+  // Waypoints must precede tracks in GPX 1.1
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="isochrone-map" xmlns="http://www.topografix.com/GPX/1/1">',
+    ...waypoints,
+    ...tracks,
+    "</gpx>",
+  ].join("\n");
+};
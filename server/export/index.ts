@@ -0,0 +1,39 @@
+import { encodeGpx } from "./gpx";
+import { encodeKml } from "./kml";
+import { encodeShapefile } from "./shapefile";
+import type { ExportCollection, ExportFile, ExportFormat } from "./types";
+
+export * from "./features";
+export * from "./types";
+
+export function encodeExport(
+  collection: ExportCollection,
+  format: ExportFormat
+): ExportFile {
+  switch (format) {
+    case "geojson":
+      return {
+        body: JSON.stringify(collection),
+        contentType: "application/geo+json",
+        extension: "geojson",
+      };
+    case "kml":
+      return {
+        body: encodeKml(collection),
+        contentType: "application/vnd.google-earth.kml+xml",
+        extension: "kml",
+      };
+    case "gpx":
+      return {
+        body: encodeGpx(collection),
+        contentType: "application/gpx+xml",
+        extension: "gpx",
+      };
+    case "shapefile":
+      return {
+        body: encodeShapefile(collection),
+        contentType: "application/zip",
+        extension: "zip",
+      };
+  }
+}
@@ -0,0 +1,45 @@
+import { featureCollection, polygon } from "@turf/helpers";
+import { intersect } from "@turf/intersect";
+import type { Feature } from "../schemas/isochrones";
+import { overlayFeature } from "./features";
+import type { ExportFeature, ExportGeometry } from "./types";
+
+const getOuterFeature = (features: Feature[]) =>
+  features.reduce<Feature | undefined>(
+    (outer, feature) =>
+      !outer || feature.properties.value > outer.properties.value
+        ? feature
+        : outer,
+    undefined
+  );
+
+// Overlap of every pair of markers' widest bands, as the map draws them
+export function intersectionFeatures(
+  isochrones: { id: string; features: Feature[] }[]
+): ExportFeature[] {
+  const outer = isochrones.flatMap(({ id, features }) => {
+    const feature = getOuterFeature(features);
+    return feature
+      ? [{ id, polygon: polygon(feature.geometry.coordinates) }]
+      : [];
+  });
+
+  const intersections: ExportFeature[] = [];
+  for (let i = 0; i < outer.length; i++) {
+    for (let j = i + 1; j < outer.length; j++) {
+      const shared = intersect(
+        featureCollection([outer[i]!.polygon, outer[j]!.polygon])
+      );
+      if (shared) {
+        intersections.push(
+          overlayFeature(
+            "intersection",
+            [outer[i]!.id, outer[j]!.id],
+            shared.geometry as ExportGeometry
+          )
+        );
+      }
+    }
+  }
+  return intersections;
+}
@@ -0,0 +1,48 @@
+import type {
+  ExportCollection,
+  ExportFeature,
+  ExportGeometry,
+  Position,
+} from "./types";
+import { escapeXml } from "./xml";
+
+const coordinates = (positions: Position[]) =>
+  `<coordinates>${positions.map(([lon, lat]) => `${lon},${lat}`).join(" ")}</coordinates>`;
+
+const polygon = ([outer = [], ...holes]: Position[][]) =>
+  `<Polygon><outerBoundaryIs><LinearRing>${coordinates(outer)}</LinearRing></outerBoundaryIs>${holes
+    .map(
+      (hole) =>
+        `<innerBoundaryIs><LinearRing>${coordinates(hole)}</LinearRing></innerBoundaryIs>`
+    )
+    .join("")}</Polygon>`;
+
+const geometry = (value: ExportGeometry) => {
+  switch (value.type) {
+    case "Point":
+      return `<Point>${coordinates([value.coordinates])}</Point>`;
+    case "Polygon":
+      return polygon(value.coordinates);
+    case "MultiPolygon":
+      return `<MultiGeometry>${value.coordinates.map(polygon).join("")}</MultiGeometry>`;
+  }
+};
+
+const placemark = ({ geometry: shape, properties }: ExportFeature) => {
+  const data = Object.entries(properties)
+    .filter(([, value]) => value !== null)
+    .map(
+      ([key, value]) =>
+        `<Data name="${escapeXml(key)}"><value>${escapeXml(String(value))}</value></Data>`
+    )
+    .join("");
+  return `<Placemark><name>${escapeXml(String(properties.name ?? ""))}</name><ExtendedData>${data}</ExtendedData>${geometry(shape)}</Placemark>`;
+};
+
+export const encodeKml = (collection: ExportCollection) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>Isochrones</name>',
+    ...collection.features.map(placemark),
+    "</Document></kml>",
+  ].join("\n");
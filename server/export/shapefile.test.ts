@@ -0,0 +1,139 @@
+import { describe, expect, test } from "bun:test";
+import { encodeShapefile } from "./shapefile";
+import type { ExportCollection, Position } from "./types";
+
+// The archive is stored, not compressed, so its local headers can be read
+// one after another
+const unzip = (zip: Uint8Array) => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const files: Record<string, DataView> = {};
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = new TextDecoder().decode(
+      zip.subarray(offset + 30, offset + 30 + nameLength)
+    );
+    const start = offset + 30 + nameLength;
+    files[name] = new DataView(zip.buffer, zip.byteOffset + start, size);
+    offset = start + size;
+  }
+  return files;
+};
+
+// Counter-clockwise, as GeoJSON has outer rings
+const square = (x: number, y: number, size: number): Position[] => [
+  [x, y],
+  [x + size, y],
+  [x + size, y + size],
+  [x, y + size],
+  [x, y],
+];
+
+const collection: ExportCollection = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [8.68, 49.41] },
+      properties: { kind: "marker", marker_id: "a" },
+    },
+    {
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [8.7, 49.42] },
+      properties: { kind: "marker", marker_id: "b" },
+    },
+    {
+      type: "Feature",
+      geometry: { type: "Polygon", coordinates: [square(8, 49, 1)] },
+      properties: { kind: "isochrone", group_index: 0, value: 300 },
+    },
+    {
+      type: "Feature",
+      geometry: {
+        type: "MultiPolygon",
+        coordinates: [[square(10, 50, 1)], [square(12, 51, 0.5)]],
+      },
+      properties: { kind: "intersection", group_index: null, value: 600 },
+    },
+  ],
+};
+
+const files = unzip(encodeShapefile(collection));
+
+describe("encodeShapefile", () => {
+  test("writes a markers and an isochrones layer", () => {
+    expect(Object.keys(files).sort()).toEqual(
+      ["markers", "isochrones"]
+        .flatMap((layer) =>
+          ["shp", "shx", "dbf", "prj", "cpg"].map((ext) => `${layer}.${ext}`)
+        )
+        .sort()
+    );
+  });
+
+  test.each([
+    ["markers", 1, 2, [8.68, 49.41, 8.7, 49.42]],
+    ["isochrones", 5, 2, [8, 49, 12.5, 51.5]],
+  ] as const)(
+    "%s.shp and .shx headers describe the layer",
+    (layer, shapeType, count, bounds) => {
+      const shp = files[`${layer}.shp`]!;
+      const shx = files[`${layer}.shx`]!;
+
+      for (const file of [shp, shx]) {
+        // File code and length are big-endian, the rest little-endian
+        expect(file.getInt32(0)).toBe(9994);
+        expect(file.getInt32(24) * 2).toBe(file.byteLength);
+        expect(file.getInt32(28, true)).toBe(1000);
+        expect(file.getInt32(32, true)).toBe(shapeType);
+        bounds.forEach((value, index) =>
+          expect(file.getFloat64(36 + index * 8, true)).toBeCloseTo(value)
+        );
+      }
+
+      // One index entry per record, each pointing at its record header
+      expect((shx.byteLength - 100) / 8).toBe(count);
+      for (let index = 0; index < count; index++) {
+        const offset = shx.getInt32(100 + index * 8) * 2;
+        const length = shx.getInt32(104 + index * 8);
+        expect(shp.getInt32(offset)).toBe(index + 1);
+        expect(shp.getInt32(offset + 4)).toBe(length);
+        expect(shp.getInt32(offset + 8, true)).toBe(shapeType);
+      }
+    }
+  );
+
+  test("writes polygon parts with clockwise outer rings", () => {
+    const shp = files["isochrones.shp"]!;
+    const record = 100 + 8;
+    const parts = shp.getInt32(record + 36, true);
+    const points = shp.getInt32(record + 40, true);
+    expect([parts, points]).toEqual([1, 5]);
+
+    const ring = Array.from({ length: points }, (_, index) => [
+      shp.getFloat64(record + 48 + index * 16, true),
+      shp.getFloat64(record + 56 + index * 16, true),
+    ]);
+    expect(ring).toEqual([...square(8, 49, 1)].reverse());
+
+    const second = 100 + 8 + shp.getInt32(104) * 2;
+    expect(shp.getInt32(second + 8 + 36, true)).toBe(2);
+  });
+
+  test("writes one dBase record per feature", () => {
+    const dbf = files["isochrones.dbf"]!;
+    const headerLength = dbf.getUint16(8, true);
+    const recordLength = dbf.getUint16(10, true);
+
+    expect(dbf.getUint32(4, true)).toBe(2);
+    expect(dbf.byteLength).toBe(headerLength + 2 * recordLength + 1);
+    expect(dbf.getUint8(dbf.byteLength - 1)).toBe(0x1a);
+    // kind, group_index (truncated to 10 characters) and value
+    expect((headerLength - 33) / 32).toBe(3);
+    const name = new TextDecoder().decode(
+      new Uint8Array(dbf.buffer, dbf.byteOffset + 64, 10)
+    );
+    expect(name).toBe("group_inde");
+  });
+});
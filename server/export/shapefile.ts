@@ -0,0 +1,276 @@
+import type { ExportCollection, ExportFeature, Position } from "./types";
+import { createZip, type ZipEntry } from "./zip";
+
+const SHAPE_POINT = 1;
+const SHAPE_POLYGON = 5;
+
+const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+interface DbfField {
+  key: string;
+  name: string;
+  type: "C" | "N";
+  length: number;
+  decimals: number;
+}
+
+const encoder = new TextEncoder();
+
+// Shoelace sum; positive for counter-clockwise rings
+const signedArea = (ring: Position[]) =>
+  ring.reduce((sum, [x1 = 0, y1 = 0], index) => {
+    const [x2 = 0, y2 = 0] = ring[(index + 1) % ring.length]!;
+    return sum + (x1 * y2 - x2 * y1);
+  }, 0);
+
+// Shapefiles want outer rings clockwise and holes counter-clockwise, the
+// opposite of GeoJSON
+const getRings = (feature: ExportFeature): Position[][] => {
+  const polygons =
+    feature.geometry.type === "Polygon"
+      ? [feature.geometry.coordinates]
+      : feature.geometry.type === "MultiPolygon"
+        ? feature.geometry.coordinates
+        : [];
+  return polygons.flatMap((rings) =>
+    rings.map((ring, index) => {
+      const clockwise = signedArea(ring) < 0;
+      return clockwise === (index === 0) ? ring : [...ring].reverse();
+    })
+  );
+};
+
+type Bounds = [number, number, number, number];
+
+const getBounds = (positions: Position[]) =>
+  positions.reduce<Bounds>(
+    ([minX, minY, maxX, maxY], [x = 0, y = 0]) => [
+      Math.min(minX, x),
+      Math.min(minY, y),
+      Math.max(maxX, x),
+      Math.max(maxY, y),
+    ],
+    [Infinity, Infinity, -Infinity, -Infinity]
+  );
+
+const getRecordContent = (feature: ExportFeature, shapeType: number) => {
+  if (shapeType === SHAPE_POINT) {
+    const [x = 0, y = 0] =
+      feature.geometry.type === "Point" ? feature.geometry.coordinates : [];
+    const view = new DataView(new ArrayBuffer(20));
+    view.setInt32(0, SHAPE_POINT, true);
+    view.setFloat64(4, x, true);
+    view.setFloat64(12, y, true);
+    const bounds: Bounds = [x, y, x, y];
+    return { bytes: new Uint8Array(view.buffer), bounds };
+  }
+
+  const rings = getRings(feature);
+  const points = rings.flat();
+  const bounds = getBounds(points);
+  const view = new DataView(
+    new ArrayBuffer(44 + 4 * rings.length + 16 * points.length)
+  );
+  view.setInt32(0, SHAPE_POLYGON, true);
+  bounds.forEach((value, index) => view.setFloat64(4 + index * 8, value, true));
+  view.setInt32(36, rings.length, true);
+  view.setInt32(40, points.length, true);
+
+  let offset = 44;
+  let start = 0;
+  for (const ring of rings) {
+    view.setInt32(offset, start, true);
+    offset += 4;
+    start += ring.length;
+  }
+  for (const [x = 0, y = 0] of points) {
+    view.setFloat64(offset, x, true);
+    view.setFloat64(offset + 8, y, true);
+    offset += 16;
+  }
+  return { bytes: new Uint8Array(view.buffer), bounds };
+};
+
+const writeHeader = (
+  view: DataView,
+  byteLength: number,
+  shapeType: number,
+  bounds: number[]
+) => {
+  view.setInt32(0, 9994);
+  view.setInt32(24, byteLength / 2);
+  view.setInt32(28, 1000, true);
+  view.setInt32(32, shapeType, true);
+  bounds.forEach((value, index) =>
+    view.setFloat64(36 + index * 8, Number.isFinite(value) ? value : 0, true)
+  );
+};
+
+const encodeShapes = (features: ExportFeature[], shapeType: number) => {
+  const records = features.map((feature) =>
+    getRecordContent(feature, shapeType)
+  );
+  const bounds = getBounds(
+    records.flatMap(({ bounds: [minX, minY, maxX, maxY] }) => [
+      [minX, minY],
+      [maxX, maxY],
+    ])
+  );
+
+  const shpLength = records.reduce(
+    (length, record) => length + 8 + record.bytes.length,
+    100
+  );
+  const shp = new Uint8Array(shpLength);
+  const shpView = new DataView(shp.buffer);
+  writeHeader(shpView, shpLength, shapeType, bounds);
+
+  const shxLength = 100 + 8 * records.length;
+  const shx = new Uint8Array(shxLength);
+  const shxView = new DataView(shx.buffer);
+  writeHeader(shxView, shxLength, shapeType, bounds);
+
+  let offset = 100;
+  records.forEach((record, index) => {
+    // Record headers, offsets and lengths are big-endian 16-bit words
+    shpView.setInt32(offset, index + 1);
+    shpView.setInt32(offset + 4, record.bytes.length / 2);
+    shp.set(record.bytes, offset + 8);
+    shxView.setInt32(100 + index * 8, offset / 2);
+    shxView.setInt32(104 + index * 8, record.bytes.length / 2);
+    offset += 8 + record.bytes.length;
+  });
+
+  return { shp, shx };
+};
+
+const truncateBytes = (value: string, length: number) => {
+  let bytes = encoder.encode(value);
+  let end = value.length;
+  while (bytes.length > length) {
+    end -= 1;
+    bytes = encoder.encode(value.slice(0, end));
+  }
+  return bytes;
+};
+
+const getFields = (features: ExportFeature[]): DbfField[] => {
+  const keys = [
+    ...new Set(features.flatMap((feature) => Object.keys(feature.properties))),
+  ];
+  const names = new Set<string>();
+
+  return keys.map((key) => {
+    // dBase names are at most 10 characters and must stay unique
+    let name = key.slice(0, 10);
+    for (let suffix = 1; names.has(name); suffix++) {
+      name = `${key.slice(0, 10 - String(suffix).length)}${suffix}`;
+    }
+    names.add(name);
+
+    const values = features
+      .map((feature) => feature.properties[key])
+      .filter((value) => value !== null && value !== undefined);
+    if (values.every((value) => typeof value === "number")) {
+      const integers = values.every((value) => Number.isInteger(value));
+      return { key, name, type: "N", length: 18, decimals: integers ? 0 : 6 };
+    }
+
+    const length = Math.min(
+      254,
+      Math.max(
+        1,
+        ...values.map((value) => encoder.encode(String(value)).length)
+      )
+    );
+    return { key, name, type: "C", length, decimals: 0 };
+  });
+};
+
+const encodeDbf = (features: ExportFeature[]) => {
+  const fields = getFields(features);
+  const headerLength = 32 + 32 * fields.length + 1;
+  const recordLength =
+    1 + fields.reduce((length, field) => length + field.length, 0);
+  const dbf = new Uint8Array(
+    headerLength + recordLength * features.length + 1
+  ).fill(0);
+  const view = new DataView(dbf.buffer);
+
+  const now = new Date();
+  view.setUint8(0, 0x03);
+  view.setUint8(1, now.getFullYear() - 1900);
+  view.setUint8(2, now.getMonth() + 1);
+  view.setUint8(3, now.getDate());
+  view.setUint32(4, features.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  fields.forEach((field, index) => {
+    const offset = 32 + index * 32;
+    dbf.set(encoder.encode(field.name), offset);
+    view.setUint8(offset + 11, field.type.charCodeAt(0));
+    view.setUint8(offset + 16, field.length);
+    view.setUint8(offset + 17, field.decimals);
+  });
+  view.setUint8(headerLength - 1, 0x0d);
+
+  features.forEach((feature, index) => {
+    let offset = headerLength + index * recordLength;
+    dbf.fill(0x20, offset, offset + recordLength);
+    offset += 1;
+
+    for (const field of fields) {
+      const value = feature.properties[field.key];
+      if (value !== null && value !== undefined) {
+        if (field.type === "N") {
+          const text = Number(value).toFixed(field.decimals);
+          dbf.set(
+            truncateBytes(text, field.length),
+            offset + Math.max(0, field.length - text.length)
+          );
+        } else {
+          dbf.set(truncateBytes(String(value), field.length), offset);
+        }
+      }
+      offset += field.length;
+    }
+  });
+  view.setUint8(dbf.length - 1, 0x1a);
+
+  return dbf;
+};
+
+const layerFiles = (
+  name: string,
+  features: ExportFeature[],
+  shapeType: number
+): ZipEntry[] => {
+  if (features.length === 0) return [];
+
+  const { shp, shx } = encodeShapes(features, shapeType);
+  return [
+    { name: `${name}.shp`, data: shp },
+    { name: `${name}.shx`, data: shx },
+    { name: `${name}.dbf`, data: encodeDbf(features) },
+    { name: `${name}.prj`, data: encoder.encode(WGS84_PRJ) },
+    { name: `${name}.cpg`, data: encoder.encode("UTF-8") },
+  ];
+};
+
+// A shapefile holds a single geometry type, so markers and polygons are
+// written as two layers in one archive
+export const encodeShapefile = (collection: ExportCollection) => {
+  const points = collection.features.filter(
+    (feature) => feature.geometry.type === "Point"
+  );
+  const polygons = collection.features.filter(
+    (feature) => feature.geometry.type !== "Point"
+  );
+
+  return createZip([
+    ...layerFiles("markers", points, SHAPE_POINT),
+    ...layerFiles("isochrones", polygons, SHAPE_POLYGON),
+  ]);
+};
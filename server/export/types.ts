@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+export const ExportFormatSchema = z.enum([
+  "geojson",
+  "kml",
+  "gpx",
+  "shapefile",
+]);
+
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+
+export type Position = number[];
+
+export type ExportGeometry =
+  | { type: "Point"; coordinates: Position }
+  | { type: "Polygon"; coordinates: Position[][] }
+  | { type: "MultiPolygon"; coordinates: Position[][][] };
+
+export type ExportProperties = Record<string, string | number | null>;
+
+export interface ExportFeature {
+  type: "Feature";
+  geometry: ExportGeometry;
+  properties: ExportProperties;
+}
+
+export interface ExportCollection {
+  type: "FeatureCollection";
+  features: ExportFeature[];
+}
+
+export interface ExportFile {
+  body: string | Uint8Array<ArrayBuffer>;
+  contentType: string;
+  extension: string;
+}
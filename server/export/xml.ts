@@ -0,0 +1,19 @@
+import type { ExportProperties } from "./types";
+
+const entities: Record<string, string> = {
+  "<": "&lt;",
+  ">": "&gt;",
+  "&": "&amp;",
+  "'": "&apos;",
+  '"': "&quot;",
+};
+
+export const escapeXml = (value: string) =>
+  value.replace(/[<>&'"]/g, (char) => entities[char]!);
+
+// "key=value; ..." for formats without structured attributes
+export const describeProperties = (properties: ExportProperties) =>
+  Object.entries(properties)
+    .filter(([key, value]) => key !== "name" && value !== null)
+    .map(([key, value]) => `${key}=${value}`)
+    .join("; ");
@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import { createZip } from "./zip";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const entries = [
+  {
+    name: "fox.txt",
+    data: encoder.encode("The quick brown fox jumps over the lazy dog"),
+  },
+  { name: "empty.txt", data: new Uint8Array() },
+  { name: "utf8.txt", data: encoder.encode("ü") },
+];
+
+// Known CRC-32 values for the entries above
+const CRCS = [0x414fa339, 0, 0x63d969d5];
+
+// Walks the central directory the way unzip tools do: from the end record
+const readCentralDirectory = (zip: Uint8Array) => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  const size = view.getUint32(end + 12, true);
+  const start = view.getUint32(end + 16, true);
+  expect(view.getUint16(end + 8, true)).toBe(count);
+  expect(start + size).toBe(end);
+
+  const files = [];
+  let offset = start;
+  for (let index = 0; index < count; index++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(offset + 28, true);
+    files.push({
+      method: view.getUint16(offset + 10, true),
+      crc: view.getUint32(offset + 16, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      localOffset: view.getUint32(offset + 42, true),
+      name: decoder.decode(zip.subarray(offset + 46, offset + 46 + nameLength)),
+    });
+    offset += 46 + nameLength;
+  }
+  expect(offset).toBe(end);
+  return { view, files };
+};
+
+describe("createZip", () => {
+  test("lists every entry in the central directory with its CRC-32", () => {
+    const { files } = readCentralDirectory(createZip(entries));
+
+    expect(files.map((file) => file.name)).toEqual(
+      entries.map((entry) => entry.name)
+    );
+    expect(files.map((file) => file.crc)).toEqual(CRCS);
+    files.forEach((file, index) => {
+      expect(file.method).toBe(0);
+      expect(file.size).toBe(entries[index]!.data.length);
+      expect(file.compressedSize).toBe(file.size);
+    });
+  });
+
+  test("points each central entry at a matching local header", () => {
+    const zip = createZip(entries);
+    const { view, files } = readCentralDirectory(zip);
+
+    files.forEach((file, index) => {
+      const offset = file.localOffset;
+      expect(view.getUint32(offset, true)).toBe(0x04034b50);
+      expect(view.getUint32(offset + 14, true)).toBe(file.crc);
+      expect(view.getUint32(offset + 18, true)).toBe(file.size);
+
+      const nameLength = view.getUint16(offset + 26, true);
+      const extraLength = view.getUint16(offset + 28, true);
+      const dataStart = offset + 30 + nameLength + extraLength;
+      expect(
+        decoder.decode(zip.subarray(offset + 30, offset + 30 + nameLength))
+      ).toBe(file.name);
+      expect(zip.subarray(dataStart, dataStart + file.size)).toEqual(
+        entries[index]!.data
+      );
+    });
+  });
+
+  test("writes a valid archive with no entries", () => {
+    const zip = createZip([]);
+
+    expect(zip.length).toBe(22);
+    expect(readCentralDirectory(zip).files).toEqual([]);
+  });
+});
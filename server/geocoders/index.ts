@@ -0,0 +1,46 @@
+import { readNumberVar } from "../env";
+import type { GeocoderName } from "../schemas/geocode";
+import { mockGeocoder } from "./mock";
+import { createNominatimGeocoder } from "./nominatim";
+import { createOrsGeocoder } from "./ors";
+import type { Geocoder } from "./types";
+
+export type { Geocoder } from "./types";
+
+type Env = Record<string, string | undefined>;
+
+const geocoderFactories: Record<GeocoderName, (env: Env) => Geocoder | null> = {
+  ors: (env) =>
+    env.ORS_API_KEY
+      ? createOrsGeocoder({
+          apiKey: env.ORS_API_KEY,
+          baseUrl: env.ORS_BASE_URL || undefined,
+          timeout: readNumberVar(env, "ORS_TIMEOUT", undefined, { min: 1 }),
+        })
+      : null,
+  nominatim: (env) =>
+    createNominatimGeocoder({
+      baseUrl: env.NOMINATIM_BASE_URL || undefined,
+      email: env.NOMINATIM_EMAIL || undefined,
+      timeout: readNumberVar(env, "NOMINATIM_TIMEOUT", undefined, { min: 1 }),
+    }),
+  mock: () => mockGeocoder,
+};
+
+// GEOCODER if set, otherwise ORS when a key is configured, otherwise the
+// public Nominatim instance
+export const getDefaultGeocoderName = (env: Env): GeocoderName => {
+  const configured = env.GEOCODER as GeocoderName | undefined;
+  if (configured && Object.hasOwn(geocoderFactories, configured)) {
+    return configured;
+  }
+  return env.ORS_API_KEY ? "ors" : "nominatim";
+};
+
+// Returns null when the geocoder is missing its configuration
+export const getGeocoder = (
+  env: Env,
+  name: GeocoderName = getDefaultGeocoderName(env)
+): Geocoder | null => {
+  return geocoderFactories[name](env);
+};
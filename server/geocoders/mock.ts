@@ -0,0 +1,16 @@
+import type { Coordinate } from "../schemas/isochrones";
+import type { Geocoder } from "./types";
+
+export const MOCK_GEOCODER_ATTRIBUTION = "Mock geocoder (no lookups)";
+
+// Finds nothing by name and labels every location with its coordinates, for
+// working offline
+export const mockGeocoder: Geocoder = {
+  name: "mock",
+  attribution: MOCK_GEOCODER_ATTRIBUTION,
+  search: async () => [],
+  reverse: async ([lon, lat]: Coordinate) => ({
+    label: `${lat.toFixed(5)}, ${lon.toFixed(5)}`,
+    location: [lon, lat],
+  }),
+};
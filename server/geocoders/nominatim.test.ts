@@ -0,0 +1,142 @@
+import {
+  afterAll,
+  beforeEach,
+  describe,
+  expect,
+  setSystemTime,
+  test,
+} from "bun:test";
+import { QuotaError } from "../errors";
+import { getError, useStubServer } from "../test-utils";
+import { createNominatimGeocoder } from "./nominatim";
+
+// A stand-in for a Nominatim instance
+const upstream = useStubServer();
+
+const geocoder = () =>
+  createNominatimGeocoder({
+    baseUrl: upstream.url,
+    email: "maps@example.com",
+    timeout: 1000,
+  });
+
+const place = {
+  display_name: "Heidelberg, Baden-Württemberg, Germany",
+  lat: "49.4093582",
+  lon: "8.694724",
+  boundingbox: ["49.3520", "49.4596", "8.5731", "8.7940"],
+};
+
+// Calls are spaced a second apart across the process. Each test starts on a
+// clock well past the last one's calls, so only the test of the spacing
+// itself waits.
+let clock = Date.now();
+
+beforeEach(() => {
+  clock += 60_000;
+  setSystemTime(new Date(clock));
+});
+
+afterAll(() => {
+  setSystemTime();
+});
+
+describe("Nominatim geocoder", () => {
+  test("searches and converts the places it finds", async () => {
+    let url: URL | undefined;
+    upstream.reply = (request) => {
+      url = new URL(request.url);
+      return Response.json([place]);
+    };
+
+    const results = await geocoder().search({ q: "Heidelberg", limit: 3 });
+
+    expect(url?.pathname).toBe("/search");
+    expect(Object.fromEntries(url!.searchParams)).toEqual({
+      q: "Heidelberg",
+      limit: "3",
+      format: "jsonv2",
+      email: "maps@example.com",
+    });
+    expect(results).toEqual([
+      {
+        label: "Heidelberg, Baden-Württemberg, Germany",
+        location: [8.694724, 49.4093582],
+        bbox: [8.5731, 49.352, 8.794, 49.4596],
+      },
+    ]);
+  });
+
+  test("looks up the place at a location", async () => {
+    let url: URL | undefined;
+    upstream.reply = (request) => {
+      url = new URL(request.url);
+      return Response.json(place);
+    };
+
+    const result = await geocoder().reverse([8.69, 49.41]);
+
+    expect(url?.pathname).toBe("/reverse");
+    expect(url?.searchParams.get("lat")).toBe("49.41");
+    expect(url?.searchParams.get("lon")).toBe("8.69");
+    expect(result?.label).toBe("Heidelberg, Baden-Württemberg, Germany");
+  });
+
+  test("finds nothing where Nominatim reports an error for the location", async () => {
+    upstream.reply = () => Response.json({ error: "Unable to geocode" });
+
+    expect(await geocoder().reverse([-30, 40])).toBeNull();
+  });
+
+  test("rejects a payload that isn't a list of places", async () => {
+    upstream.reply = () => Response.json([{ display_name: "Nowhere" }]);
+
+    const error = await getError(geocoder().search({ q: "x", limit: 1 }));
+
+    expect(error).toMatchObject({ code: "upstream_invalid_response" });
+    expect((error as Error).message).toStartWith(
+      "Nominatim returned an unexpected payload"
+    );
+  });
+
+  test("passes on upstream failures", async () => {
+    upstream.reply = () => new Response(null, { status: 503 });
+
+    const error = await getError(geocoder().reverse([8.69, 49.41]));
+
+    expect(error).toMatchObject({
+      code: "upstream_error",
+      retryable: true,
+      upstreamStatus: 503,
+      message: "Nominatim responded with 503",
+    });
+  });
+
+  test("spaces calls a second apart", async () => {
+    const arrivals: number[] = [];
+    upstream.reply = () => {
+      arrivals.push(performance.now());
+      return Response.json([]);
+    };
+
+    await Promise.all([
+      geocoder().search({ q: "a", limit: 1 }),
+      geocoder().search({ q: "b", limit: 1 }),
+    ]);
+
+    expect(arrivals).toHaveLength(2);
+    expect(arrivals[1]! - arrivals[0]!).toBeGreaterThanOrEqual(950);
+  });
+
+  test("rejects a call that would queue for more than five seconds", async () => {
+    upstream.reply = () => Response.json([]);
+    await geocoder().search({ q: "a", limit: 1 });
+
+    // Ten seconds earlier, the next free slot is eleven seconds away
+    setSystemTime(new Date(clock - 10_000));
+    const error = await getError(geocoder().search({ q: "b", limit: 1 }));
+
+    expect(error).toBeInstanceOf(QuotaError);
+    expect(error).toMatchObject({ code: "quota_exceeded", retryAfter: 11 });
+  });
+});
@@ -0,0 +1,113 @@
+import { z } from "zod";
+import { QuotaError, UpstreamError } from "../errors";
+import { joinUrl, getJson } from "../providers/http";
+import type { HttpProviderOptions } from "../providers/types";
+import type { GeocodeQuery, GeocodeResult } from "../schemas/geocode";
+import type { Coordinate } from "../schemas/isochrones";
+import type { Geocoder } from "./types";
+
+export const NOMINATIM_DEFAULT_BASE_URL = "https://nominatim.openstreetmap.org";
+export const NOMINATIM_ATTRIBUTION = "Nominatim | OpenStreetMap contributors";
+
+// The public instance allows one request per second
+const NOMINATIM_INTERVAL = 1000;
+const NOMINATIM_MAX_WAIT = 5000;
+
+const PlaceSchema = z.object({
+  display_name: z.string(),
+  lat: z.coerce.number(),
+  lon: z.coerce.number(),
+  // [south, north, west, east] as strings
+  boundingbox: z.tuple([
+    z.coerce.number(),
+    z.coerce.number(),
+    z.coerce.number(),
+    z.coerce.number(),
+  ]),
+});
+
+const toResult = (place: z.infer<typeof PlaceSchema>): GeocodeResult => {
+  const [south, north, west, east] = place.boundingbox;
+  return {
+    label: place.display_name,
+    location: [place.lon, place.lat],
+    bbox: [west, south, east, north],
+  };
+};
+
+let nextSlot = 0;
+
+// Spaces calls out across the process, rejecting those that would queue
+// for too long
+const throttle = async () => {
+  const now = Date.now();
+  const wait = Math.max(0, nextSlot - now);
+  if (wait > NOMINATIM_MAX_WAIT) {
+    throw new QuotaError(
+      "Upstream quota for nominatim exhausted",
+      Math.ceil(wait / 1000)
+    );
+  }
+  nextSlot = Math.max(now, nextSlot) + NOMINATIM_INTERVAL;
+  if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+};
+
+export interface NominatimGeocoderOptions extends HttpProviderOptions {
+  // Nominatim's usage policy asks for a contact address on heavy use
+  email?: string;
+}
+
+export const createNominatimGeocoder = ({
+  baseUrl = NOMINATIM_DEFAULT_BASE_URL,
+  email,
+  ...options
+}: NominatimGeocoderOptions = {}): Geocoder => {
+  const request = async (path: string, params: Record<string, string>) => {
+    await throttle();
+    return getJson(
+      "Nominatim",
+      `${joinUrl(baseUrl, path)}?${new URLSearchParams({
+        ...params,
+        format: "jsonv2",
+        ...(email && { email }),
+      })}`,
+      {
+        ...options,
+        headers: { "User-Agent": "vite-hono-leaflet-turf-isochrone-map" },
+      }
+    );
+  };
+
+  const parse = <T extends z.ZodType>(schema: T, json: unknown) => {
+    const result = schema.safeParse(json);
+    if (!result.success) {
+      throw new UpstreamError(
+        `Nominatim returned an unexpected payload: ${result.error.message}`,
+        { code: "upstream_invalid_response", retryable: false }
+      );
+    }
+    return result.data as z.infer<T>;
+  };
+
+  const search = async ({ q, limit }: GeocodeQuery) => {
+    const json = await request("/search", { q, limit: String(limit) });
+    return parse(z.array(PlaceSchema), json).map(toResult);
+  };
+
+  // Nominatim answers 200 with { error: "Unable to geocode" } for the open sea
+  const reverse = async ([lon, lat]: Coordinate) => {
+    const json = await request("/reverse", {
+      lat: String(lat),
+      lon: String(lon),
+    });
+    if (json && typeof json === "object" && "error" in json) return null;
+    return toResult(parse(PlaceSchema, json));
+  };
+
+  return {
+    name: "nominatim",
+    attribution: NOMINATIM_ATTRIBUTION,
+    search,
+    reverse,
+  };
+};
@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { QuotaError } from "../errors";
+import { getError, useStubServer } from "../test-utils";
+import { createOrsGeocoder } from "./ors";
+
+// A stand-in for the ORS geocoding API
+const upstream = useStubServer();
+
+const geocoder = () =>
+  createOrsGeocoder({
+    apiKey: "test-key",
+    baseUrl: upstream.url,
+    timeout: 100,
+  });
+
+const peliasResponse = {
+  features: [
+    {
+      geometry: { coordinates: [8.694724, 49.4093582] },
+      properties: { label: "Heidelberg, BW, Germany" },
+      bbox: [8.5731, 49.352, 8.794, 49.4596],
+    },
+  ],
+};
+
+describe("ORS geocoder", () => {
+  test("autocompletes with the API key", async () => {
+    let received: { url: URL; auth: string | null } | undefined;
+    upstream.reply = (request) => {
+      received = {
+        url: new URL(request.url),
+        auth: request.headers.get("authorization"),
+      };
+      return Response.json(peliasResponse);
+    };
+
+    const results = await geocoder().search({ q: "Heidel", limit: 5 });
+
+    expect(received?.url.pathname).toBe("/geocode/autocomplete");
+    expect(received?.url.searchParams.get("text")).toBe("Heidel");
+    expect(received?.url.searchParams.get("size")).toBe("5");
+    expect(received?.auth).toBe("test-key");
+    expect(results).toEqual([
+      {
+        label: "Heidelberg, BW, Germany",
+        location: [8.694724, 49.4093582],
+        bbox: [8.5731, 49.352, 8.794, 49.4596],
+      },
+    ]);
+  });
+
+  test("returns the first reverse match, or null without one", async () => {
+    upstream.reply = () => Response.json(peliasResponse);
+    expect((await geocoder().reverse([8.69, 49.41]))?.label).toBe(
+      "Heidelberg, BW, Germany"
+    );
+
+    upstream.reply = () => Response.json({ features: [] });
+    expect(await geocoder().reverse([-30, 40])).toBeNull();
+  });
+
+  test.each([
+    [400, { code: "upstream_rejected", status: 422, retryable: false }],
+    [403, { code: "upstream_error", retryable: false }],
+    [500, { code: "upstream_error", status: 502, retryable: true }],
+  ])("maps a %i reply to an upstream error", async (status, expected) => {
+    upstream.reply = () =>
+      Response.json({ error: "Something went wrong" }, { status });
+
+    const error = await getError(geocoder().search({ q: "x", limit: 1 }));
+
+    expect(error).toMatchObject({
+      ...expected,
+      upstreamStatus: status,
+      message: `ORS responded with ${status}: Something went wrong`,
+    });
+  });
+
+  test("passes on the quota as a QuotaError", async () => {
+    upstream.reply = () =>
+      new Response(null, { status: 429, headers: { "Retry-After": "30" } });
+
+    const error = await getError(geocoder().reverse([8.69, 49.41]));
+
+    expect(error).toBeInstanceOf(QuotaError);
+    expect(error).toMatchObject({ retryAfter: 30 });
+  });
+
+  test("rejects a payload that isn't a feature collection", async () => {
+    upstream.reply = () => Response.json({ features: [{ geometry: null }] });
+
+    const error = await getError(geocoder().search({ q: "x", limit: 1 }));
+
+    expect(error).toMatchObject({ code: "upstream_invalid_response" });
+  });
+});
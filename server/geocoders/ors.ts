@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { UpstreamError } from "../errors";
+import { joinUrl, getJson } from "../providers/http";
+import { ORS_ATTRIBUTION, ORS_DEFAULT_BASE_URL } from "../providers/ors";
+import type { HttpProviderOptions } from "../providers/types";
+import {
+  BoundingBoxSchema,
+  type GeocodeQuery,
+  type GeocodeResult,
+} from "../schemas/geocode";
+import { CoordinateSchema, type Coordinate } from "../schemas/isochrones";
+import type { Geocoder } from "./types";
+
+// ORS geocoding is Pelias behind the same API key
+const PeliasResponseSchema = z.object({
+  features: z.array(
+    z.object({
+      geometry: z.object({ coordinates: CoordinateSchema }),
+      properties: z.object({ label: z.string() }),
+      bbox: BoundingBoxSchema.optional(),
+    })
+  ),
+});
+
+export interface OrsGeocoderOptions extends HttpProviderOptions {
+  apiKey: string;
+}
+
+export const createOrsGeocoder = ({
+  apiKey,
+  baseUrl = ORS_DEFAULT_BASE_URL,
+  ...options
+}: OrsGeocoderOptions): Geocoder => {
+  const request = async (
+    path: string,
+    params: Record<string, string>
+  ): Promise<GeocodeResult[]> => {
+    const json = await getJson(
+      "ORS",
+      `${joinUrl(baseUrl, path)}?${new URLSearchParams(params)}`,
+      { ...options, headers: { Authorization: apiKey } }
+    );
+
+    const result = PeliasResponseSchema.safeParse(json);
+    if (!result.success) {
+      throw new UpstreamError(
+        `ORS returned an unexpected payload: ${result.error.message}`,
+        { code: "upstream_invalid_response", retryable: false }
+      );
+    }
+
+    return result.data.features.map((feature) => ({
+      label: feature.properties.label,
+      location: feature.geometry.coordinates,
+      bbox: feature.bbox,
+    }));
+  };
+
+  // Autocomplete rather than search: it's built for partial, as-you-type text
+  const search = ({ q, limit }: GeocodeQuery) =>
+    request("/geocode/autocomplete", { text: q, size: String(limit) });
+
+  const reverse = async ([lon, lat]: Coordinate) => {
+    const [result] = await request("/geocode/reverse", {
+      "point.lon": String(lon),
+      "point.lat": String(lat),
+      size: "1",
+    });
+    return result ?? null;
+  };
+
+  return { name: "ors", attribution: ORS_ATTRIBUTION, search, reverse };
+};
@@ -0,0 +1,14 @@
+import type {
+  GeocodeQuery,
+  GeocodeResult,
+  GeocoderName,
+} from "../schemas/geocode";
+import type { Coordinate } from "../schemas/isochrones";
+
+export interface Geocoder {
+  name: GeocoderName;
+  attribution: string;
+  search: (query: GeocodeQuery) => Promise<GeocodeResult[]>;
+  // Resolves to null when nothing is known at that location
+  reverse: (location: Coordinate) => Promise<GeocodeResult | null>;
+}
@@ -1,4 +1,20 @@
 import app from "./app";
+import { setBasemapConfig } from "./basemaps";
+import { loadBasemapsFromFile } from "./basemaps/configure";
+import { setCacheStore } from "./cache";
+import { createCacheFromEnv } from "./cache/configure";
+import { setScenarioStore } from "./scenarios";
+import { createSqliteScenarioStore } from "./scenarios/sqlite";
+
+setCacheStore(createCacheFromEnv(process.env));
+setScenarioStore(
+  createSqliteScenarioStore({
+    path: process.env.SCENARIOS_SQLITE_PATH || undefined,
+  })
+);
+
+const basemaps = await loadBasemapsFromFile(process.env.BASEMAPS_CONFIG);
+setBasemapConfig(basemaps.config, basemaps.sources);
 
 Bun.serve({
   fetch: app.fetch,
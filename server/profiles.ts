@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+export const ProfileInfoSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  color: z.string(),
+  speed: z.number().positive(), // average speed in km/h, used by the mock provider
+});
+
+export type ProfileInfo = z.infer<typeof ProfileInfoSchema>;
+
+// Every travel profile the app knows about. Ids match the ORS profile names;
+// other providers map them onto their own costing models.
+export const profiles = [
+  { id: "driving-car", label: "Driving (car)", color: "#3b82f6", speed: 40 },
+  { id: "driving-hgv", label: "Driving (HGV)", color: "#6366f1", speed: 30 },
+  { id: "cycling-regular", label: "Cycling", color: "#f59e0b", speed: 15 },
+  {
+    id: "cycling-electric",
+    label: "Cycling (electric)",
+    color: "#ef4444",
+    speed: 20,
+  },
+  {
+    id: "cycling-mountain",
+    label: "Cycling (mountain)",
+    color: "#a16207",
+    speed: 12,
+  },
+  { id: "foot-walking", label: "Walking", color: "#10b981", speed: 5 },
+  { id: "wheelchair", label: "Wheelchair", color: "#ec4899", speed: 4 },
+] as const satisfies readonly ProfileInfo[];
+
+export type Profile = (typeof profiles)[number]["id"];
+
+export const ProfileSchema = z.enum(
+  profiles.map((profile) => profile.id) as [Profile, ...Profile[]]
+);
+
+export const getProfile = (id: Profile): ProfileInfo =>
+  profiles.find((profile) => profile.id === id)!;
@@ -0,0 +1,111 @@
+import { QuotaError, UpstreamError } from "../errors";
+
+export const DEFAULT_TIMEOUT = 10_000; // 10 seconds in ms
+
+export const joinUrl = (baseUrl: string, path: string) =>
+  `${baseUrl.replace(/\/+$/, "")}${path}`;
+
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  timeout?: number;
+  fetch?: typeof fetch;
+}
+
+// Fetches JSON from an upstream service, turning network failures, timeouts
+// and non-2xx replies into UpstreamErrors labelled with the service's name
+const requestJson = async (
+  label: string,
+  url: string,
+  init: { method: "GET" | "POST"; body?: string },
+  {
+    headers,
+    timeout = DEFAULT_TIMEOUT,
+    fetch: fetchImpl = fetch,
+  }: RequestOptions
+): Promise<unknown> => {
+  let response: Response;
+  try {
+    response = await fetchImpl(url, {
+      ...init,
+      headers: {
+        ...(init.body !== undefined && { "Content-Type": "application/json" }),
+        Accept: "application/geo+json, application/json",
+        ...headers,
+      },
+      signal: AbortSignal.timeout(timeout),
+    });
+  } catch (error) {
+    if ((error as Error).name === "TimeoutError") {
+      throw new UpstreamError(`${label} request timed out after ${timeout}ms`, {
+        code: "upstream_timeout",
+        status: 504,
+      });
+    }
+    throw new UpstreamError(
+      `${label} request failed: ${(error as Error).message}`,
+      { code: "upstream_unavailable" }
+    );
+  }
+
+  if (!response.ok) {
+    // Engines report failures as { error: { message } }, { error: string }
+    // or, for Valhalla, { error_code, error }
+    const body = (await response.json().catch(() => null)) as {
+      error?: { message?: string } | string;
+    } | null;
+    const detail =
+      typeof body?.error === "string" ? body.error : body?.error?.message;
+    const message = `${label} responded with ${response.status}${detail ? `: ${detail}` : ""}`;
+
+    if (response.status === 429) {
+      const retryAfter = Number(response.headers.get("retry-after"));
+      throw new QuotaError(message, retryAfter > 0 ? retryAfter : 60);
+    }
+    // Our credentials were refused: retrying won't help until config changes
+    if (response.status === 401 || response.status === 403) {
+      throw new UpstreamError(message, {
+        retryable: false,
+        upstreamStatus: response.status,
+      });
+    }
+    // The engine understood the request but can't serve it (e.g. the range
+    // is over its limit or the location isn't near a road)
+    if (response.status < 500) {
+      throw new UpstreamError(message, {
+        code: "upstream_rejected",
+        status: 422,
+        retryable: false,
+        upstreamStatus: response.status,
+      });
+    }
+    throw new UpstreamError(message, { upstreamStatus: response.status });
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new UpstreamError(`${label} returned a non-JSON response`, {
+      code: "upstream_invalid_response",
+      retryable: false,
+    });
+  }
+};
+
+export const postJson = (
+  label: string,
+  url: string,
+  body: unknown,
+  options: RequestOptions = {}
+) =>
+  requestJson(
+    label,
+    url,
+    { method: "POST", body: JSON.stringify(body) },
+    options
+  );
+
+export const getJson = (
+  label: string,
+  url: string,
+  options: RequestOptions = {}
+) => requestJson(label, url, { method: "GET" }, options);
@@ -0,0 +1,48 @@
+import { readNumberVar } from "../env";
+import type { ProviderName } from "../schemas/isochrones";
+import { mockProvider } from "./mock";
+import { createOrsProvider } from "./ors";
+import type { IsochroneProvider } from "./types";
+import { createValhallaProvider } from "./valhalla";
+
+export type { IsochroneProvider } from "./types";
+
+type Env = Record<string, string | undefined>;
+
+const providerFactories: Record<
+  ProviderName,
+  (env: Env) => IsochroneProvider | null
+> = {
+  ors: (env) =>
+    env.ORS_API_KEY
+      ? createOrsProvider({
+          apiKey: env.ORS_API_KEY,
+          baseUrl: env.ORS_BASE_URL || undefined,
+          timeout: readNumberVar(env, "ORS_TIMEOUT", undefined, { min: 1 }),
+        })
+      : null,
+  valhalla: (env) =>
+    createValhallaProvider({
+      baseUrl: env.VALHALLA_BASE_URL || undefined,
+      timeout: readNumberVar(env, "VALHALLA_TIMEOUT", undefined, { min: 1 }),
+    }),
+  mock: () => mockProvider,
+};
+
+// The provider used when a request doesn't ask for one: ISOCHRONE_PROVIDER if
+// set, otherwise ORS when a key is configured, otherwise mock circles
+export const getDefaultProviderName = (env: Env): ProviderName => {
+  const configured = env.ISOCHRONE_PROVIDER as ProviderName | undefined;
+  if (configured && Object.hasOwn(providerFactories, configured)) {
+    return configured;
+  }
+  return env.ORS_API_KEY ? "ors" : "mock";
+};
+
+// Returns null when the requested provider is missing its configuration
+export const getIsochroneProvider = (
+  env: Env,
+  name: ProviderName = getDefaultProviderName(env)
+): IsochroneProvider | null => {
+  return providerFactories[name](env);
+};
@@ -0,0 +1,89 @@
+import { getProfile } from "../profiles";
+import type {
+  Feature,
+  IsochronesRequest,
+  IsochronesResponse,
+  Profile,
+} from "../schemas/isochrones";
+import type { IsochroneProvider } from "./types";
+
+export const MOCK_ATTRIBUTION = "Mock isochrones (no routing engine)";
+
+// Mock response - 12-sided circles
+export const generateMockIsochrones = async (
+  profile: Profile,
+  request: IsochronesRequest
+): Promise<IsochronesResponse> => {
+  const { locations, range, range_type, id } = request;
+  const features: Feature[] = [];
+  const { speed } = getProfile(profile);
+
+  locations.forEach((location, locIndex) => {
+    range.forEach((rangeValue) => {
+      // Generate 12-sided circle (dodecagon) with noise
+      const radiusKm =
+        range_type === "time"
+          ? (speed * rangeValue) / 3600 // speed is km/h, range is seconds
+          : rangeValue / 1000; // range is metres
+      const radiusDegrees = radiusKm / 111; // Rough conversion: 1 degree ≈ 111km
+      const points: [number, number][] = [];
+      const numPoints = 12;
+      const noiseScale = 0.15; // 15% variation in radius
+
+      for (let i = 0; i < numPoints; i++) {
+        const angle = (i / numPoints) * Math.PI * 2;
+        // Add noise to radius
+        const noise = (Math.random() - 0.5) * 2 * noiseScale; // Random between -noiseScale and +noiseScale
+        const noisyRadius = radiusDegrees * (1 + noise);
+        const x =
+          location[0] +
+          (noisyRadius * Math.cos(angle)) /
+            Math.cos((location[1] * Math.PI) / 180);
+        const y = location[1] + noisyRadius * Math.sin(angle);
+        points.push([x, y]);
+      }
+
+      // Close the polygon
+      points.push([...points[0]!]);
+
+      features.push({
+        type: "Feature",
+        geometry: {
+          type: "Polygon",
+          coordinates: [points],
+        },
+        properties: {
+          group_index: locIndex,
+          value: rangeValue,
+          center: location,
+        },
+      });
+    });
+  });
+
+  return {
+    type: "FeatureCollection",
+    bbox: [-180, -90, 180, 90],
+    features,
+    metadata: {
+      id,
+      attribution: MOCK_ATTRIBUTION,
+      service: "isochrones",
+      timestamp: Date.now(),
+      query: {
+        id,
+        locations,
+        range,
+        range_type,
+        transport: profile,
+      },
+      engine: { name: "mock" },
+    },
+  };
+};
+
+export const mockProvider: IsochroneProvider = {
+  name: "mock",
+  attribution: MOCK_ATTRIBUTION,
+  getIsochrones: generateMockIsochrones,
+};
@@ -0,0 +1,215 @@
+import { describe, expect, test } from "bun:test";
+import { QuotaError, UpstreamError } from "../errors";
+import type { IsochronesRequest } from "../schemas/isochrones";
+import { getError, useStubServer } from "../test-utils";
+import { createOrsProvider } from "./ors";
+
+// A stand-in for the ORS API
+const upstream = useStubServer();
+
+const provider = () =>
+  createOrsProvider({
+    apiKey: "test-key",
+    baseUrl: upstream.url,
+    timeout: 100,
+  });
+
+const request: IsochronesRequest = {
+  locations: [[8.68, 49.41]],
+  range: [300, 600],
+  range_type: "time",
+  id: "a",
+};
+
+const orsResponse = {
+  type: "FeatureCollection",
+  bbox: [8.67, 49.4, 8.69, 49.42],
+  features: [
+    {
+      type: "Feature",
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [8.67, 49.4],
+            [8.69, 49.4],
+            [8.69, 49.42],
+            [8.67, 49.4],
+          ],
+        ],
+      },
+      properties: { group_index: 0, value: 300, center: [8.68, 49.41] },
+    },
+  ],
+  metadata: {
+    attribution: "openrouteservice.org | OpenStreetMap contributors",
+    service: "isochrones",
+    timestamp: 1700000000000,
+    query: {
+      profile: "driving-car",
+      locations: [[8.68, 49.41]],
+      range: [300, 600],
+      range_type: "time",
+    },
+    engine: { version: "9.0.0" },
+  },
+};
+
+describe("ORS provider", () => {
+  test("forwards the request and normalises the metadata", async () => {
+    let received: { url: string; auth: string | null; body: unknown } | null =
+      null;
+    upstream.reply = async (req) => {
+      received = {
+        url: new URL(req.url).pathname,
+        auth: req.headers.get("authorization"),
+        body: await req.json(),
+      };
+      return Response.json(orsResponse);
+    };
+
+    const result = await provider().getIsochrones("driving-car", request);
+
+    expect(received!).toEqual({
+      url: "/v2/isochrones/driving-car",
+      auth: "test-key",
+      body: { ...request, units: "m" },
+    });
+    expect(result.features).toHaveLength(1);
+    expect(result.metadata.engine).toEqual({ name: "ors", version: "9.0.0" });
+    expect(result.metadata.query).toMatchObject({
+      id: "a",
+      transport: "driving-car",
+    });
+  });
+
+  test("times out when the engine takes too long", async () => {
+    upstream.reply = async () => {
+      await Bun.sleep(500);
+      return Response.json(orsResponse);
+    };
+
+    const error = await getError(
+      provider().getIsochrones("driving-car", request)
+    );
+
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(error).toMatchObject({
+      code: "upstream_timeout",
+      status: 504,
+      retryable: true,
+    });
+  });
+
+  test("reports a 4xx rejection with the engine's message", async () => {
+    upstream.reply = () =>
+      Response.json(
+        { error: { code: 3004, message: "Parameter 'range' is out of range" } },
+        { status: 400 }
+      );
+
+    const error = await getError(
+      provider().getIsochrones("driving-car", request)
+    );
+
+    expect(error).toMatchObject({
+      code: "upstream_rejected",
+      status: 422,
+      retryable: false,
+      upstreamStatus: 400,
+      message: "ORS responded with 400: Parameter 'range' is out of range",
+    });
+  });
+
+  test("does not retry refused credentials", async () => {
+    upstream.reply = () =>
+      Response.json(
+        { error: "Access to this API has been disallowed" },
+        { status: 403 }
+      );
+
+    const error = await getError(
+      provider().getIsochrones("driving-car", request)
+    );
+
+    expect(error).toMatchObject({
+      code: "upstream_error",
+      retryable: false,
+      upstreamStatus: 403,
+    });
+  });
+
+  test("passes on the engine's quota as a QuotaError", async () => {
+    upstream.reply = () =>
+      new Response("Rate limit exceeded", {
+        status: 429,
+        headers: { "Retry-After": "42" },
+      });
+
+    const error = await getError(
+      provider().getIsochrones("driving-car", request)
+    );
+
+    expect(error).toBeInstanceOf(QuotaError);
+    expect(error).toMatchObject({ code: "quota_exceeded", retryAfter: 42 });
+  });
+
+  test("treats a 5xx reply as retryable", async () => {
+    upstream.reply = () => new Response("Bad gateway", { status: 502 });
+
+    const error = await getError(
+      provider().getIsochrones("driving-car", request)
+    );
+
+    expect(error).toMatchObject({
+      code: "upstream_error",
+      status: 502,
+      retryable: true,
+      upstreamStatus: 502,
+      message: "ORS responded with 502",
+    });
+  });
+
+  test("rejects a reply that isn't JSON", async () => {
+    upstream.reply = () => new Response("<html>Maintenance</html>");
+
+    const error = await getError(
+      provider().getIsochrones("driving-car", request)
+    );
+
+    expect(error).toMatchObject({
+      code: "upstream_invalid_response",
+      retryable: false,
+      message: "ORS returned a non-JSON response",
+    });
+  });
+
+  test("rejects JSON that isn't an isochrones response", async () => {
+    upstream.reply = () =>
+      Response.json({ ...orsResponse, features: [{ type: "Feature" }] });
+
+    const error = await getError(
+      provider().getIsochrones("driving-car", request)
+    );
+
+    expect(error).toMatchObject({ code: "upstream_invalid_response" });
+    expect((error as Error).message).toStartWith(
+      "ORS returned an unexpected payload"
+    );
+  });
+
+  test("reports an unreachable engine", async () => {
+    const offline = createOrsProvider({
+      apiKey: "test-key",
+      baseUrl: "http://127.0.0.1:9",
+      timeout: 1000,
+    });
+
+    const error = await getError(offline.getIsochrones("driving-car", request));
+
+    expect(error).toMatchObject({
+      code: "upstream_unavailable",
+      retryable: true,
+    });
+  });
+});
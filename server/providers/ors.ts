@@ -0,0 +1,60 @@
+import {
+  IsochronesResponseSchema,
+  type IsochronesRequest,
+  type IsochronesResponse,
+  type Profile,
+} from "../schemas/isochrones";
+import { UpstreamError } from "../errors";
+import { joinUrl, postJson } from "./http";
+import type { HttpProviderOptions, IsochroneProvider } from "./types";
+
+export const ORS_DEFAULT_BASE_URL = "https://api.openrouteservice.org";
+export const ORS_ATTRIBUTION =
+  "openrouteservice.org | OpenStreetMap contributors";
+
+export interface OrsProviderOptions extends HttpProviderOptions {
+  apiKey: string;
+}
+
+export const createOrsProvider = ({
+  apiKey,
+  baseUrl = ORS_DEFAULT_BASE_URL,
+  ...options
+}: OrsProviderOptions): IsochroneProvider => {
+  const getIsochrones = async (
+    profile: Profile,
+    request: IsochronesRequest
+  ): Promise<IsochronesResponse> => {
+    const { locations, range, range_type, id } = request;
+    const json = await postJson(
+      "ORS",
+      joinUrl(baseUrl, `/v2/isochrones/${profile}`),
+      { locations, range, range_type, units: "m", id },
+      { ...options, headers: { Authorization: apiKey } }
+    );
+
+    // ORS echoes the profile as `query.profile`; our metadata calls it `transport`
+    const metadata = (
+      json as { metadata?: { query?: object; engine?: object } }
+    )?.metadata;
+    const result = IsochronesResponseSchema.safeParse({
+      ...(json as object),
+      metadata: {
+        ...metadata,
+        id,
+        query: { ...metadata?.query, id, range_type, transport: profile },
+        engine: { ...metadata?.engine, name: "ors" },
+      },
+    });
+    if (!result.success) {
+      throw new UpstreamError(
+        `ORS returned an unexpected payload: ${result.error.message}`,
+        { code: "upstream_invalid_response", retryable: false }
+      );
+    }
+
+    return result.data;
+  };
+
+  return { name: "ors", attribution: ORS_ATTRIBUTION, getIsochrones };
+};
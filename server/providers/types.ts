@@ -0,0 +1,21 @@
+import type {
+  IsochronesRequest,
+  IsochronesResponse,
+  Profile,
+  ProviderName,
+} from "../schemas/isochrones";
+
+export interface IsochroneProvider {
+  name: ProviderName;
+  attribution: string;
+  getIsochrones: (
+    profile: Profile,
+    request: IsochronesRequest
+  ) => Promise<IsochronesResponse>;
+}
+
+export interface HttpProviderOptions {
+  baseUrl?: string;
+  timeout?: number;
+  fetch?: typeof fetch;
+}
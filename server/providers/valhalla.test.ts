@@ -0,0 +1,165 @@
+import { describe, expect, test } from "bun:test";
+import { UpstreamError } from "../errors";
+import type { IsochronesRequest } from "../schemas/isochrones";
+import { getError, useStubServer } from "../test-utils";
+import { createValhallaProvider } from "./valhalla";
+
+// A stand-in for a Valhalla instance
+const upstream = useStubServer();
+
+const provider = () =>
+  createValhallaProvider({ baseUrl: upstream.url, timeout: 100 });
+
+const request: IsochronesRequest = {
+  locations: [[8.68, 49.41]],
+  range: [300, 600],
+  range_type: "time",
+};
+
+const square = (size: number): [number, number][][] => [
+  [
+    [0, 0],
+    [size, 0],
+    [size, size],
+    [0, 0],
+  ],
+];
+
+// Valhalla lists contours largest first, in minutes
+const valhallaResponse = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      geometry: {
+        type: "MultiPolygon",
+        coordinates: [square(0.1), square(2)],
+      },
+      properties: { contour: 10, metric: "time" },
+    },
+    {
+      type: "Feature",
+      geometry: { type: "Polygon", coordinates: square(1) },
+      properties: { contour: 5, metric: "time" },
+    },
+  ],
+};
+
+describe("Valhalla provider", () => {
+  test("converts ranges and contours between seconds and minutes", async () => {
+    let body: unknown;
+    upstream.reply = async (req) => {
+      body = await req.json();
+      return Response.json(valhallaResponse);
+    };
+
+    const result = await provider().getIsochrones("cycling-electric", request);
+
+    expect(body).toMatchObject({
+      locations: [{ lon: 8.68, lat: 49.41 }],
+      costing: "bicycle",
+      costing_options: { bicycle: { bicycle_type: "Hybrid" } },
+      contours: [{ time: 5 }, { time: 10 }],
+    });
+    expect(result.features.map((f) => f.properties.value)).toEqual([300, 600]);
+    // The largest part of a MultiPolygon is kept
+    expect(result.features[1]!.geometry.coordinates).toEqual(square(2));
+    expect(result.bbox).toEqual([0, 0, 2, 2]);
+    expect(result.metadata.engine.name).toBe("valhalla");
+  });
+
+  test("sends one request per location", async () => {
+    let calls = 0;
+    upstream.reply = () => {
+      calls++;
+      return Response.json(valhallaResponse);
+    };
+
+    const result = await provider().getIsochrones("foot-walking", {
+      ...request,
+      locations: [
+        [8.68, 49.41],
+        [8.7, 49.42],
+      ],
+    });
+
+    expect(calls).toBe(2);
+    expect(result.features.map((f) => f.properties.group_index)).toEqual([
+      0, 0, 1, 1,
+    ]);
+  });
+
+  test("times out when the engine takes too long", async () => {
+    upstream.reply = async () => {
+      await Bun.sleep(500);
+      return Response.json(valhallaResponse);
+    };
+
+    const error = await getError(
+      provider().getIsochrones("driving-car", request)
+    );
+
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(error).toMatchObject({ code: "upstream_timeout", status: 504 });
+  });
+
+  test("reports a 4xx rejection with the engine's message", async () => {
+    upstream.reply = () =>
+      Response.json(
+        { error_code: 171, error: "No suitable edges near location" },
+        { status: 400 }
+      );
+
+    const error = await getError(
+      provider().getIsochrones("driving-car", request)
+    );
+
+    expect(error).toMatchObject({
+      code: "upstream_rejected",
+      status: 422,
+      retryable: false,
+      message: "Valhalla responded with 400: No suitable edges near location",
+    });
+  });
+
+  test("treats a 5xx reply as retryable", async () => {
+    upstream.reply = () => new Response(null, { status: 503 });
+
+    const error = await getError(
+      provider().getIsochrones("driving-car", request)
+    );
+
+    expect(error).toMatchObject({
+      code: "upstream_error",
+      retryable: true,
+      upstreamStatus: 503,
+    });
+  });
+
+  test("rejects a reply that isn't JSON", async () => {
+    upstream.reply = () => new Response("not json");
+
+    const error = await getError(
+      provider().getIsochrones("driving-car", request)
+    );
+
+    expect(error).toMatchObject({ code: "upstream_invalid_response" });
+  });
+
+  test("rejects JSON that isn't a FeatureCollection of contours", async () => {
+    upstream.reply = () =>
+      Response.json({
+        type: "FeatureCollection",
+        features: [{ type: "Feature", geometry: null, properties: {} }],
+      });
+
+    const error = await getError(
+      provider().getIsochrones("driving-car", request)
+    );
+
+    expect(error).toMatchObject({ code: "upstream_invalid_response" });
+    expect((error as Error).message).toStartWith(
+      "Valhalla returned an unexpected payload"
+    );
+  });
+});
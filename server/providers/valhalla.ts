@@ -0,0 +1,176 @@
+import { z } from "zod";
+import {
+  CoordinateSchema,
+  type Coordinate,
+  type Feature,
+  type Geometry,
+  type IsochronesRequest,
+  type IsochronesResponse,
+  type Profile,
+  type RangeType,
+} from "../schemas/isochrones";
+import { UpstreamError } from "../errors";
+import { joinUrl, postJson } from "./http";
+import type { HttpProviderOptions, IsochroneProvider } from "./types";
+
+export const VALHALLA_DEFAULT_BASE_URL = "https://valhalla1.openstreetmap.de";
+export const VALHALLA_ATTRIBUTION = "Valhalla | OpenStreetMap contributors";
+
+const costings: Record<
+  Profile,
+  { costing: string; costing_options?: Record<string, object> }
+> = {
+  "driving-car": { costing: "auto" },
+  "driving-hgv": { costing: "truck" },
+  "cycling-regular": { costing: "bicycle" },
+  "cycling-electric": {
+    costing: "bicycle",
+    costing_options: { bicycle: { bicycle_type: "Hybrid", cycling_speed: 20 } },
+  },
+  "cycling-mountain": {
+    costing: "bicycle",
+    costing_options: { bicycle: { bicycle_type: "Mountain" } },
+  },
+  "foot-walking": { costing: "pedestrian" },
+  wheelchair: {
+    costing: "pedestrian",
+    costing_options: { pedestrian: { type: "wheelchair" } },
+  },
+};
+
+const RingSchema = z.array(CoordinateSchema);
+
+const ValhallaFeatureSchema = z.object({
+  type: z.literal("Feature"),
+  geometry: z.discriminatedUnion("type", [
+    z.object({ type: z.literal("Polygon"), coordinates: z.array(RingSchema) }),
+    z.object({
+      type: z.literal("MultiPolygon"),
+      coordinates: z.array(z.array(RingSchema)),
+    }),
+  ]),
+  properties: z.object({
+    contour: z.number(),
+    metric: z.string().optional(),
+  }),
+});
+
+const ValhallaResponseSchema = z.object({
+  type: z.literal("FeatureCollection"),
+  features: z.array(ValhallaFeatureSchema),
+});
+
+type ValhallaFeature = z.infer<typeof ValhallaFeatureSchema>;
+
+// Shoelace formula in degrees², only used to compare ring sizes
+const ringArea = (ring: Coordinate[]) =>
+  Math.abs(
+    ring.reduce((sum, [x1, y1], i) => {
+      const [x2, y2] = ring[(i + 1) % ring.length]!;
+      return sum + x1 * y2 - x2 * y1;
+    }, 0) / 2
+  );
+
+// Our FeatureSchema only carries Polygons, so keep the largest part of a
+// MultiPolygon (the main reachable area; the rest are small islands)
+const toPolygon = (geometry: ValhallaFeature["geometry"]): Geometry => {
+  if (geometry.type === "Polygon") return geometry;
+  const [largest = []] = [...geometry.coordinates].sort(
+    (a, b) => ringArea(b[0] ?? []) - ringArea(a[0] ?? [])
+  );
+  return { type: "Polygon", coordinates: largest };
+};
+
+const getBbox = (features: Feature[]) => {
+  const coordinates = features.flatMap((f) => f.geometry.coordinates.flat());
+  if (coordinates.length === 0) return [-180, -90, 180, 90];
+  const lons = coordinates.map(([lon]) => lon);
+  const lats = coordinates.map(([, lat]) => lat);
+  return [
+    Math.min(...lons),
+    Math.min(...lats),
+    Math.max(...lons),
+    Math.max(...lats),
+  ];
+};
+
+export const createValhallaProvider = ({
+  baseUrl = VALHALLA_DEFAULT_BASE_URL,
+  ...options
+}: HttpProviderOptions = {}): IsochroneProvider => {
+  // Valhalla only accepts one location per isochrone request
+  const fetchLocation = async (
+    profile: Profile,
+    location: Coordinate,
+    range: number[],
+    rangeType: RangeType,
+    groupIndex: number,
+    id?: string
+  ): Promise<Feature[]> => {
+    // Valhalla contours are in minutes or kilometres, our ranges are in
+    // seconds or metres
+    const scale = rangeType === "time" ? 60 : 1000;
+    const json = await postJson(
+      "Valhalla",
+      joinUrl(baseUrl, "/isochrone"),
+      {
+        id,
+        locations: [{ lon: location[0], lat: location[1] }],
+        ...costings[profile],
+        contours: range.map((value) => ({ [rangeType]: value / scale })),
+        polygons: true,
+      },
+      options
+    );
+
+    const result = ValhallaResponseSchema.safeParse(json);
+    if (!result.success) {
+      throw new UpstreamError(
+        `Valhalla returned an unexpected payload: ${result.error.message}`,
+        { code: "upstream_invalid_response", retryable: false }
+      );
+    }
+
+    return result.data.features
+      .map((feature) => ({
+        type: "Feature" as const,
+        geometry: toPolygon(feature.geometry),
+        properties: {
+          group_index: groupIndex,
+          value: Math.round(feature.properties.contour * scale),
+          center: location,
+        },
+      }))
+      .sort((a, b) => a.properties.value - b.properties.value);
+  };
+
+  const getIsochrones = async (
+    profile: Profile,
+    request: IsochronesRequest
+  ): Promise<IsochronesResponse> => {
+    const { locations, range, range_type, id } = request;
+    const features = (
+      await Promise.all(
+        locations.map((location, index) =>
+          fetchLocation(profile, location, range, range_type, index, id)
+        )
+      )
+    ).flat();
+
+    return {
+      type: "FeatureCollection",
+      bbox: getBbox(features),
+      features,
+      metadata: {
+        id,
+        attribution: VALHALLA_ATTRIBUTION,
+        service: "isochrones",
+        timestamp: Date.now(),
+        query: { id, locations, range, range_type, transport: profile },
+        engine: { name: "valhalla" },
+      },
+    };
+  };
+
+  return { name: "valhalla", attribution: VALHALLA_ATTRIBUTION, getIsochrones };
+};
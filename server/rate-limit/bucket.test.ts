@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { createTokenBucket } from "./bucket";
+
+const start = new Date("2024-01-01T00:00:00Z").getTime();
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe("token bucket", () => {
+  test("starts full and empties as tokens are taken", () => {
+    setSystemTime(start);
+    const bucket = createTokenBucket({ limit: 3, interval: 3000 });
+
+    expect(bucket.remaining()).toBe(3);
+    bucket.take();
+    bucket.take(2);
+    expect(bucket.remaining()).toBe(0);
+    expect(bucket.waitTime()).toBe(1000);
+    expect(bucket.waitTime(2)).toBe(2000);
+  });
+
+  test("refills evenly over the interval", () => {
+    setSystemTime(start);
+    const bucket = createTokenBucket({ limit: 4, interval: 4000 });
+    bucket.take(4);
+
+    setSystemTime(start + 500);
+    expect(bucket.remaining()).toBe(0);
+    expect(bucket.waitTime()).toBe(500);
+
+    setSystemTime(start + 2000);
+    expect(bucket.remaining()).toBe(2);
+    expect(bucket.waitTime()).toBe(0);
+  });
+
+  test("never holds more than its limit", () => {
+    setSystemTime(start);
+    const bucket = createTokenBucket({ limit: 2, interval: 1000 });
+    bucket.take();
+
+    setSystemTime(start + 60_000);
+    expect(bucket.remaining()).toBe(2);
+  });
+});
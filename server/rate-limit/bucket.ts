@@ -0,0 +1,46 @@
+export interface TokenBucket {
+  limit: number;
+  interval: number;
+  remaining: () => number;
+  // ms until `count` tokens are available, 0 if they are now
+  waitTime: (count?: number) => number;
+  take: (count?: number) => void;
+}
+
+// Holds up to `limit` tokens and refills them evenly over `interval` ms, so
+// `limit` per `interval` on average with bursts of up to `limit`
+export const createTokenBucket = ({
+  limit,
+  interval,
+}: {
+  limit: number;
+  interval: number;
+}): TokenBucket => {
+  let tokens = limit;
+  let updatedAt = Date.now();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(limit, tokens + ((now - updatedAt) * limit) / interval);
+    updatedAt = now;
+  };
+
+  return {
+    limit,
+    interval,
+    remaining: () => {
+      refill();
+      return Math.floor(tokens);
+    },
+    waitTime: (count = 1) => {
+      refill();
+      return tokens >= count
+        ? 0
+        : Math.ceil(((count - tokens) * interval) / limit);
+    },
+    take: (count = 1) => {
+      refill();
+      tokens -= count;
+    },
+  };
+};
@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import { QuotaError } from "../errors";
+import { createTokenBucket } from "./bucket";
+import { createGovernor, getUpstreamGovernor } from "./governor";
+
+// Two calls at once, then one every 50ms
+const governor = (maxWait: number) =>
+  createGovernor(
+    "mock",
+    [
+      {
+        window: "minute",
+        bucket: createTokenBucket({ limit: 2, interval: 100 }),
+      },
+    ],
+    maxWait
+  );
+
+describe("upstream governor", () => {
+  test("lets calls through at once while the quota lasts", async () => {
+    const upstream = governor(1000);
+    const started = Date.now();
+    await Promise.all([upstream.acquire(), upstream.acquire()]);
+
+    expect(Date.now() - started).toBeLessThan(40);
+  });
+
+  test("queues calls in order once the quota runs out", async () => {
+    const upstream = governor(1000);
+    const order: number[] = [];
+    const started = Date.now();
+
+    await Promise.all(
+      [1, 2, 3, 4].map((call) =>
+        upstream.acquire().then(() => order.push(call))
+      )
+    );
+
+    expect(order).toEqual([1, 2, 3, 4]);
+    // The last two waited for a token each
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+    expect(upstream.status()).toEqual([
+      { window: "minute", limit: 2, remaining: 0 },
+    ]);
+  });
+
+  test("rejects calls that would wait longer than maxWait", async () => {
+    // One call a second
+    const upstream = createGovernor(
+      "mock",
+      [
+        {
+          window: "day",
+          bucket: createTokenBucket({ limit: 1, interval: 1000 }),
+        },
+      ],
+      60
+    );
+    const results = await Promise.allSettled([
+      upstream.acquire(),
+      upstream.acquire(),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    const { reason } = results[1] as PromiseRejectedResult;
+    expect(reason).toBeInstanceOf(QuotaError);
+    expect(reason).toMatchObject({
+      code: "quota_exceeded",
+      message: "Upstream quota for mock exhausted",
+      retryAfter: 1,
+    });
+  });
+
+  test("a rejected call doesn't hold up the queue", async () => {
+    const upstream = governor(0);
+    await upstream.acquire();
+    await upstream.acquire();
+
+    await expect(upstream.acquire()).rejects.toBeInstanceOf(QuotaError);
+    await Bun.sleep(60);
+    await upstream.acquire();
+  });
+
+  test("reads each provider's quota from the environment", () => {
+    const ors = getUpstreamGovernor(
+      { ORS_RATE_PER_MINUTE: "5", ORS_RATE_PER_DAY: "" },
+      "ors"
+    );
+
+    expect(ors.status()).toEqual([
+      { window: "minute", limit: 5, remaining: 5 },
+      { window: "day", limit: 500, remaining: 500 },
+    ]);
+    expect(getUpstreamGovernor({}, "ors")).toBe(ors);
+    expect(getUpstreamGovernor({}, "valhalla").status()).toEqual([]);
+  });
+});
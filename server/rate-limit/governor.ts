@@ -0,0 +1,127 @@
+import { readNumberVar } from "../env";
+import { QuotaError } from "../errors";
+import type { ProviderName } from "../schemas/isochrones";
+import { createTokenBucket, type TokenBucket } from "./bucket";
+
+type Env = Record<string, string | undefined>;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export const DEFAULT_UPSTREAM_MAX_WAIT = 5000; // ms a call may queue for
+
+// ORS free plan quotas for the isochrones endpoint; self-hosted engines are
+// unlimited unless configured
+const defaultLimits: Record<ProviderName, { minute?: number; day?: number }> = {
+  ors: { minute: 20, day: 500 },
+  valhalla: {},
+  mock: {},
+};
+
+const envPrefixes: Record<ProviderName, string> = {
+  ors: "ORS",
+  valhalla: "VALHALLA",
+  mock: "MOCK",
+};
+
+export interface QuotaWindow {
+  window: "minute" | "day";
+  limit: number;
+  remaining: number;
+}
+
+export interface UpstreamGovernor {
+  provider: ProviderName;
+  acquire: () => Promise<void>;
+  status: () => QuotaWindow[];
+}
+
+// Callers queue in order; each waits for a token in every window, or is
+// rejected if that would take longer than `maxWait`
+export const createGovernor = (
+  provider: ProviderName,
+  windows: { window: QuotaWindow["window"]; bucket: TokenBucket }[],
+  maxWait: number
+): UpstreamGovernor => {
+  let queue = Promise.resolve();
+
+  const acquire = () => {
+    const turn = queue.then(async () => {
+      const wait = Math.max(
+        0,
+        ...windows.map(({ bucket }) => bucket.waitTime())
+      );
+      if (wait > maxWait) {
+        throw new QuotaError(
+          `Upstream quota for ${provider} exhausted`,
+          Math.ceil(wait / 1000)
+        );
+      }
+      if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+      windows.forEach(({ bucket }) => bucket.take());
+    });
+    queue = turn.catch(() => {});
+    return turn;
+  };
+
+  return {
+    provider,
+    acquire,
+    status: () =>
+      windows.map(({ window, bucket }) => ({
+        window,
+        limit: bucket.limit,
+        remaining: bucket.remaining(),
+      })),
+  };
+};
+
+const governors = new Map<ProviderName, UpstreamGovernor>();
+
+// One governor per provider for the lifetime of the process, configured from
+// e.g. ORS_RATE_PER_MINUTE / ORS_RATE_PER_DAY the first time it's needed
+export const getUpstreamGovernor = (
+  vars: Env,
+  provider: ProviderName
+): UpstreamGovernor => {
+  let governor = governors.get(provider);
+  if (governor) return governor;
+
+  const prefix = envPrefixes[provider];
+  const defaults = defaultLimits[provider];
+  const minute = readNumberVar(
+    vars,
+    `${prefix}_RATE_PER_MINUTE`,
+    defaults.minute,
+    { integer: true }
+  );
+  const day = readNumberVar(vars, `${prefix}_RATE_PER_DAY`, defaults.day, {
+    integer: true,
+  });
+  const windows = [
+    ...(minute
+      ? [
+          {
+            window: "minute" as const,
+            bucket: createTokenBucket({ limit: minute, interval: MINUTE }),
+          },
+        ]
+      : []),
+    ...(day
+      ? [
+          {
+            window: "day" as const,
+            bucket: createTokenBucket({ limit: day, interval: DAY }),
+          },
+        ]
+      : []),
+  ];
+
+  governor = createGovernor(
+    provider,
+    windows,
+    readNumberVar(vars, "UPSTREAM_MAX_WAIT", DEFAULT_UPSTREAM_MAX_WAIT)
+  );
+  governors.set(provider, governor);
+  return governor;
+};
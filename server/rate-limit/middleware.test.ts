@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { Hono } from "hono";
+import { DEFAULT_CLIENT_RATE_PER_MINUTE, rateLimit } from "./middleware";
+
+const vars = {
+  CLIENT_RATE_PER_MINUTE: "2",
+  GEOCODE_RATE_PER_MINUTE: "3",
+  SCENARIOS_RATE_PER_MINUTE: "4",
+  TRUST_PROXY: "true",
+};
+const saved = Object.fromEntries(
+  Object.keys(vars).map((key) => [key, process.env[key]])
+);
+
+beforeAll(() => {
+  Object.assign(process.env, vars);
+});
+
+afterAll(() => {
+  for (const [key, value] of Object.entries(saved)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+});
+
+const app = new Hono();
+app.use("/api/isochrones/*", rateLimit("isochrones"));
+app.use("/api/geocode/*", rateLimit("geocode"));
+app.use("/api/scenarios/*", rateLimit("scenarios"));
+app.all("*", (c) => c.text("ok"));
+
+const request = (path: string, ip: string) =>
+  app.request(path, { headers: { "X-Forwarded-For": ip } });
+
+const statuses = async (path: string, ip: string, count: number) => {
+  const results: number[] = [];
+  for (let i = 0; i < count; i++) {
+    results.push((await request(path, ip)).status);
+  }
+  return results;
+};
+
+describe("rateLimit", () => {
+  test("answers 429 with Retry-After once a client's budget is spent", async () => {
+    expect(
+      await statuses("/api/isochrones/driving-car", "10.0.0.1", 2)
+    ).toEqual([200, 200]);
+
+    const response = await request("/api/isochrones/driving-car", "10.0.0.1");
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("30");
+    expect(response.headers.get("RateLimit-Remaining")).toBe("0");
+    expect(await response.json()).toMatchObject({
+      error: { code: "rate_limited", retryable: true, retryAfter: 30 },
+    });
+  });
+
+  test("counts each client separately", async () => {
+    await statuses("/api/isochrones/driving-car", "10.0.0.2", 3);
+
+    expect(
+      (await request("/api/isochrones/driving-car", "10.0.0.3")).status
+    ).toBe(200);
+  });
+
+  test("gives each scope its own budget and limit", async () => {
+    expect(await statuses("/api/geocode", "10.0.0.4", 4)).toEqual([
+      200, 200, 200, 429,
+    ]);
+
+    // Spending the geocode budget leaves isochrones untouched
+    const response = await request("/api/isochrones/driving-car", "10.0.0.4");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("RateLimit-Limit")).toBe("2");
+    expect(response.headers.get("RateLimit-Remaining")).toBe("1");
+
+    expect(await statuses("/api/scenarios/abc", "10.0.0.4", 5)).toEqual([
+      200, 200, 200, 200, 429,
+    ]);
+  });
+
+  test("falls back to the default limit when the variable isn't a number", async () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    process.env.CLIENT_RATE_PER_MINUTE = "abc";
+
+    try {
+      const response = await request("/api/isochrones/driving-car", "10.0.0.5");
+      expect(response.status).toBe(200);
+      expect(response.headers.get("RateLimit-Limit")).toBe(
+        String(DEFAULT_CLIENT_RATE_PER_MINUTE)
+      );
+      expect(warn).toHaveBeenCalled();
+    } finally {
+      process.env.CLIENT_RATE_PER_MINUTE = vars.CLIENT_RATE_PER_MINUTE;
+      warn.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import type { Context } from "hono";
+import { env } from "hono/adapter";
+import { getConnInfo } from "hono/bun";
+import { createMiddleware } from "hono/factory";
+import { readNumberVar } from "../env";
+import { AppError, errorResponse } from "../errors";
+import { createTokenBucket, type TokenBucket } from "./bucket";
+
+type Env = Record<string, string | undefined>;
+
+// Each group of routes has its own budget per client, so looking up
+// addresses or listing scenarios can't use up the requests for isochrones
+export type RateLimitScope = "isochrones" | "geocode" | "scenarios";
+
+const limitVars: Record<RateLimitScope, string> = {
+  isochrones: "CLIENT_RATE_PER_MINUTE",
+  geocode: "GEOCODE_RATE_PER_MINUTE",
+  scenarios: "SCENARIOS_RATE_PER_MINUTE",
+};
+
+export const DEFAULT_CLIENT_RATE_PER_MINUTE = 60;
+export const DEFAULT_GEOCODE_RATE_PER_MINUTE = 60;
+// The scenarios dialog loads every scenario saved in the browser at once
+export const DEFAULT_SCENARIOS_RATE_PER_MINUTE = 120;
+
+const defaultLimits: Record<RateLimitScope, number> = {
+  isochrones: DEFAULT_CLIENT_RATE_PER_MINUTE,
+  geocode: DEFAULT_GEOCODE_RATE_PER_MINUTE,
+  scenarios: DEFAULT_SCENARIOS_RATE_PER_MINUTE,
+};
+
+const MINUTE = 60 * 1000;
+
+const scopes = new Map<RateLimitScope, Map<string, TokenBucket>>();
+
+const getBuckets = (scope: RateLimitScope) => {
+  let buckets = scopes.get(scope);
+  if (!buckets) {
+    buckets = new Map();
+    scopes.set(scope, buckets);
+  }
+  return buckets;
+};
+
+// X-Forwarded-For is only trusted behind a proxy (TRUST_PROXY=true), since
+// clients can set it to anything
+export const getClientIp = (c: Context) => {
+  const { TRUST_PROXY } = env<Env>(c);
+  if (TRUST_PROXY === "true") {
+    const forwarded = c.req.header("x-forwarded-for")?.split(",")[0]?.trim();
+    if (forwarded) return forwarded;
+  }
+  try {
+    return getConnInfo(c).remote.address ?? "unknown";
+  } catch {
+    return "unknown";
+  }
+};
+
+const getLimit = (c: Context, scope: RateLimitScope) =>
+  readNumberVar(env<Env>(c), limitVars[scope], defaultLimits[scope], {
+    min: 1,
+    integer: true,
+  });
+
+const getBucket = (scope: RateLimitScope, ip: string, limit: number) => {
+  const buckets = getBuckets(scope);
+  let bucket = buckets.get(ip);
+  if (!bucket) {
+    // Full buckets carry no state, so drop them rather than grow forever
+    if (buckets.size > 10_000) {
+      for (const [key, value] of buckets) {
+        if (value.remaining() >= value.limit) buckets.delete(key);
+      }
+    }
+    bucket = createTokenBucket({ limit, interval: MINUTE });
+    buckets.set(ip, bucket);
+  }
+  return bucket;
+};
+
+export const getClientQuota = (
+  c: Context,
+  scope: RateLimitScope = "isochrones"
+) => {
+  const limit = getLimit(c, scope);
+  const bucket = getBuckets(scope).get(getClientIp(c));
+  return { limit, remaining: bucket ? bucket.remaining() : limit };
+};
+
+// Per client IP token bucket within `scope`; answers 429 with Retry-After
+// once exhausted
+export const rateLimit = (scope: RateLimitScope) =>
+  createMiddleware(async (c, next) => {
+    const limit = getLimit(c, scope);
+    const bucket = getBucket(scope, getClientIp(c), limit);
+    const wait = bucket.waitTime();
+
+    c.header("RateLimit-Limit", String(limit));
+    if (wait > 0) {
+      c.header("RateLimit-Remaining", "0");
+      return errorResponse(
+        c,
+        new AppError("rate_limited", "Too many requests", {
+          status: 429,
+          retryable: true,
+          retryAfter: Math.ceil(wait / 1000),
+        })
+      );
+    }
+
+    bucket.take();
+    c.header("RateLimit-Remaining", String(bucket.remaining()));
+    await next();
+  });
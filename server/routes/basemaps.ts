@@ -0,0 +1,7 @@
+import { Hono } from "hono";
+import { getBasemapConfig, toBasemapList } from "../basemaps";
+
+export const basemapsRoute = new Hono().get("/", (c) => {
+  c.header("Cache-Control", "public, max-age=3600");
+  return c.json(toBasemapList(getBasemapConfig()));
+});
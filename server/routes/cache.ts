@@ -0,0 +1,22 @@
+import { Hono } from "hono";
+import { env } from "hono/adapter";
+import { bearerAuth } from "hono/bearer-auth";
+import { getCacheStore } from "../cache";
+
+// Purging is only allowed with `Authorization: Bearer $ADMIN_TOKEN`; without
+// an ADMIN_TOKEN configured no token is accepted
+const adminAuth = bearerAuth({
+  verifyToken: (token, c) => {
+    const { ADMIN_TOKEN } = env<{ ADMIN_TOKEN?: string }>(c);
+    return !!ADMIN_TOKEN && token === ADMIN_TOKEN;
+  },
+});
+
+export const cacheRoute = new Hono()
+  .get("/stats", async (c) => {
+    return c.json(await getCacheStore().stats());
+  })
+  .delete("/", adminAuth, async (c) => {
+    await getCacheStore().clear();
+    return c.body(null, 204);
+  });
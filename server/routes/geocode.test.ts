@@ -0,0 +1,143 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { createMemoryCache, setCacheStore } from "../cache";
+import { useStubServer } from "../test-utils";
+import { geocodeRoute } from "./geocode";
+
+// Lookups go to a stub ORS instance, which isn't throttled like Nominatim
+const upstream = useStubServer();
+
+const vars = ["GEOCODER", "ORS_API_KEY", "ORS_BASE_URL"];
+const saved = Object.fromEntries(vars.map((key) => [key, process.env[key]]));
+
+beforeAll(() => {
+  process.env.GEOCODER = "ors";
+  process.env.ORS_API_KEY = "test-key";
+  process.env.ORS_BASE_URL = upstream.url;
+});
+
+afterAll(() => {
+  for (const [key, value] of Object.entries(saved)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+});
+
+let calls: URL[];
+
+beforeEach(() => {
+  setCacheStore(createMemoryCache());
+  calls = [];
+  upstream.reply = (request) => {
+    calls.push(new URL(request.url));
+    return Response.json({
+      features: [
+        {
+          geometry: { coordinates: [8.694724, 49.4093582] },
+          properties: { label: "Heidelberg, BW, Germany" },
+        },
+      ],
+    });
+  };
+});
+
+describe("GET /geocode", () => {
+  test.each([
+    ["51.5074, -0.1278", [-0.1278, 51.5074]],
+    ["-33.86 151.21", [151.21, -33.86]],
+  ])("answers %p without asking upstream", async (q, location) => {
+    const response = await geocodeRoute.request(`/?q=${encodeURIComponent(q)}`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      results: [{ location }],
+    });
+    expect(calls).toHaveLength(0);
+  });
+
+  test("searches upstream for coordinates out of range", async () => {
+    await geocodeRoute.request("/?q=95,10");
+
+    expect(calls).toHaveLength(1);
+  });
+
+  test("caches searches regardless of case", async () => {
+    await geocodeRoute.request("/?q=Heidelberg");
+    const response = await geocodeRoute.request("/?q=heidelberg");
+
+    expect(calls).toHaveLength(1);
+    expect(await response.json()).toEqual({
+      results: [
+        {
+          label: "Heidelberg, BW, Germany",
+          location: [8.694724, 49.4093582],
+        },
+      ],
+      attribution: expect.any(String),
+    });
+  });
+
+  test("answers upstream failures with the error envelope", async () => {
+    upstream.reply = () => Response.json({ error: "Nope" }, { status: 400 });
+
+    const response = await geocodeRoute.request("/?q=Heidelberg");
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({
+      error: { code: "upstream_rejected", retryable: false },
+    });
+  });
+
+  test("reports a geocoder that isn't configured", async () => {
+    delete process.env.ORS_API_KEY;
+    try {
+      const response = await geocodeRoute.request("/?q=Heidelberg");
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({
+        error: { code: "provider_not_configured" },
+      });
+    } finally {
+      process.env.ORS_API_KEY = "test-key";
+    }
+  });
+});
+
+describe("GET /geocode/reverse", () => {
+  test("rounds the location and caches the answer", async () => {
+    await geocodeRoute.request("/reverse?lat=49.4100001&lon=8.6900001");
+    const response = await geocodeRoute.request("/reverse?lat=49.41&lon=8.69");
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]?.searchParams.get("point.lat")).toBe("49.41");
+    expect(await response.json()).toMatchObject({
+      result: { label: "Heidelberg, BW, Germany" },
+    });
+  });
+
+  test("answers upstream failures with the error envelope", async () => {
+    upstream.reply = () =>
+      new Response(null, { status: 429, headers: { "Retry-After": "12" } });
+
+    const response = await geocodeRoute.request("/reverse?lat=49.41&lon=8.69");
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("12");
+    expect(await response.json()).toMatchObject({
+      error: { code: "quota_exceeded", retryable: true, retryAfter: 12 },
+    });
+  });
+
+  test("rejects locations out of range", async () => {
+    const response = await geocodeRoute.request("/reverse?lat=91&lon=0");
+
+    expect(response.status).toBe(400);
+    expect(calls).toHaveLength(0);
+  });
+});
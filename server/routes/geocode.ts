@@ -0,0 +1,86 @@
+import { Hono } from "hono";
+import { env } from "hono/adapter";
+import { getCacheStore } from "../cache";
+import { errorResponse, ProviderConfigError } from "../errors";
+import { getGeocoder } from "../geocoders";
+import {
+  GeocodeQuerySchema,
+  ReverseGeocodeQuerySchema,
+  type GeocodeResult,
+} from "../schemas/geocode";
+import type { Coordinate } from "../schemas/isochrones";
+import { validator } from "../validator";
+
+type Env = Record<string, string | undefined>;
+
+const requireGeocoder = (vars: Env) => {
+  const geocoder = getGeocoder(vars);
+  if (!geocoder) {
+    throw new ProviderConfigError("The geocoder is not configured");
+  }
+  return geocoder;
+};
+
+// "51.5074, -0.1278" is already a location: no need to ask upstream
+const parseCoordinates = (q: string): GeocodeResult | null => {
+  const match = q.match(/^(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+
+  const lat = Number(match[1]);
+  const lon = Number(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { label: `${lat}, ${lon}`, location: [lon, lat] };
+};
+
+// Results barely change, so they share the isochrone cache and its limits
+const cached = async <T>(key: string, load: () => Promise<T>) => {
+  const cache = getCacheStore();
+  const hit = await cache.get<{ value: T }>(key);
+  if (hit) return hit.value;
+
+  const value = await load();
+  await cache.set(key, { value });
+  return value;
+};
+
+export const geocodeRoute = new Hono()
+  .get("/", validator("query", GeocodeQuerySchema), async (c) => {
+    const { q, limit } = c.req.valid("query");
+
+    try {
+      const geocoder = requireGeocoder(env(c));
+      const coordinates = parseCoordinates(q);
+      const results = coordinates
+        ? [coordinates]
+        : await cached(
+            `geocode:${geocoder.name}:search:${limit}:${q.toLowerCase()}`,
+            () => geocoder.search({ q, limit })
+          );
+
+      c.header("Cache-Control", "public, max-age=86400");
+      return c.json({ results, attribution: geocoder.attribution });
+    } catch (error) {
+      return errorResponse(c, error);
+    }
+  })
+  .get("/reverse", validator("query", ReverseGeocodeQuerySchema), async (c) => {
+    const { lat, lon } = c.req.valid("query");
+    // About a metre: markers that haven't moved share an entry
+    const location: Coordinate = [
+      Number(lon.toFixed(5)),
+      Number(lat.toFixed(5)),
+    ];
+
+    try {
+      const geocoder = requireGeocoder(env(c));
+      const result = await cached(
+        `geocode:${geocoder.name}:reverse:${JSON.stringify(location)}`,
+        () => geocoder.reverse(location)
+      );
+
+      c.header("Cache-Control", "public, max-age=86400");
+      return c.json({ result, attribution: geocoder.attribution });
+    } catch (error) {
+      return errorResponse(c, error);
+    }
+  });
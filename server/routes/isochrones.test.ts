@@ -0,0 +1,199 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { createMemoryCache, setCacheStore } from "../cache";
+import type { BatchItem } from "../schemas/isochrones";
+import { useStubServer } from "../test-utils";
+import { isochronesRoute } from "./isochrones";
+
+// Batches go to a stub Valhalla instance; ORS has no key, so asking for it
+// fails on its own
+const upstream = useStubServer();
+
+const vars = ["ISOCHRONE_PROVIDER", "VALHALLA_BASE_URL", "ORS_API_KEY"];
+const saved = Object.fromEntries(vars.map((key) => [key, process.env[key]]));
+
+beforeAll(() => {
+  process.env.ISOCHRONE_PROVIDER = "valhalla";
+  process.env.VALHALLA_BASE_URL = upstream.url;
+  delete process.env.ORS_API_KEY;
+});
+
+afterAll(() => {
+  for (const [key, value] of Object.entries(saved)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+});
+
+// Upstream calls by longitude, rounded as locations arrive snapped, and the
+// most that ran at once
+let calls: number[];
+let inFlight: number;
+let maxInFlight: number;
+// Longitudes the stub refuses, and how long each call takes by longitude
+let refused: number[];
+let delays: Record<number, number>;
+
+beforeEach(() => {
+  setCacheStore(createMemoryCache());
+  delete process.env.BATCH_CONCURRENCY;
+  calls = [];
+  inFlight = 0;
+  maxInFlight = 0;
+  refused = [];
+  delays = {};
+
+  upstream.reply = async (request) => {
+    const { locations } = (await request.json()) as {
+      locations: { lon: number; lat: number }[];
+    };
+    const { lon, lat } = locations[0]!;
+    const key = Math.round(lon);
+    calls.push(key);
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await Bun.sleep(delays[key] ?? 10);
+    inFlight--;
+
+    if (refused.includes(key)) {
+      return Response.json({ error: "No suitable edges" }, { status: 400 });
+    }
+    return Response.json({
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: {
+            type: "Polygon",
+            coordinates: [
+              [
+                [lon - 0.01, lat - 0.01],
+                [lon + 0.01, lat - 0.01],
+                [lon + 0.01, lat + 0.01],
+                [lon - 0.01, lat - 0.01],
+              ],
+            ],
+          },
+          properties: { contour: 5, metric: "time" },
+        },
+      ],
+    });
+  };
+});
+
+const item = (id: string, location: [number, number]): BatchItem => ({
+  id,
+  location,
+  profile: "driving-car",
+  ranges: [300],
+  range_type: "time",
+});
+
+interface BatchResult {
+  id: string;
+  ok: boolean;
+  data?: {
+    metadata: { id?: string; query: { locations: number[][] } };
+  };
+  error?: { code: string };
+  status?: number;
+}
+
+const postBatch = async (items: BatchItem[]) => {
+  const response = await isochronesRoute.request("/batch", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ items }),
+  });
+  expect(response.status).toBe(200);
+  return ((await response.json()) as { results: BatchResult[] }).results;
+};
+
+describe("POST /batch", () => {
+  test("loads identical items once and answers each under its own id", async () => {
+    const results = await postBatch([
+      item("a", [8.68, 49.41]),
+      item("b", [8.68, 49.41]),
+      // A few metres away, in the same snapping cell
+      item("c", [8.68001, 49.41001]),
+    ]);
+
+    expect(calls).toHaveLength(1);
+    expect(results.map((result) => [result.id, result.ok])).toEqual([
+      ["a", true],
+      ["b", true],
+      ["c", true],
+    ]);
+    expect(results.map((result) => result.data?.metadata.id)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+    expect(results[2]?.data?.metadata.query.locations).toEqual([
+      [8.68001, 49.41001],
+    ]);
+  });
+
+  test("reports errors per item alongside the successes", async () => {
+    refused = [9];
+
+    const results = await postBatch([
+      item("a", [8, 49]),
+      { ...item("b", [7, 49]), provider: "ors" },
+      item("c", [9, 49]),
+    ]);
+
+    expect(results).toMatchObject([
+      { id: "a", ok: true },
+      {
+        id: "b",
+        ok: false,
+        status: 400,
+        error: { code: "provider_not_configured" },
+      },
+      {
+        id: "c",
+        ok: false,
+        status: 422,
+        error: { code: "upstream_rejected" },
+      },
+    ]);
+    // The item whose provider isn't configured never reaches upstream
+    expect(calls.toSorted()).toEqual([8, 9]);
+  });
+
+  test("keeps the items' order whatever order they finish in", async () => {
+    delays = { 8: 60, 9: 30, 10: 1 };
+
+    const results = await postBatch([
+      item("slow", [8, 49]),
+      item("medium", [9, 49]),
+      item("fast", [10, 49]),
+    ]);
+
+    expect(calls).toEqual([8, 9, 10]);
+    expect(results.map((result) => result.id)).toEqual([
+      "slow",
+      "medium",
+      "fast",
+    ]);
+  });
+
+  test("runs at most BATCH_CONCURRENCY upstream calls at once", async () => {
+    process.env.BATCH_CONCURRENCY = "2";
+
+    const results = await postBatch(
+      [1, 2, 3, 4, 5].map((lon) => item(`m${lon}`, [lon, 49]))
+    );
+
+    expect(results.every((result) => result.ok)).toBe(true);
+    expect(calls).toHaveLength(5);
+    expect(maxInFlight).toBe(2);
+  });
+});
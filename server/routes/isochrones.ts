@@ -1,250 +1,274 @@
 import { Hono } from "hono";
-import { zValidator } from "@hono/zod-validator";
+import { env } from "hono/adapter";
 import { z } from "zod";
+import { getCacheStore } from "../cache";
+import { mapSettled } from "../concurrency";
+import {
+  errorResponse,
+  getErrorStatus,
+  ProviderConfigError,
+  toApiError,
+} from "../errors";
+import { readNumberVar } from "../env";
+import {
+  encodeExport,
+  featureCollection,
+  isochroneFeature,
+  markerFeature,
+} from "../export";
+import { intersectionFeatures } from "../export/intersections";
+import { getIsochroneProvider, type IsochroneProvider } from "../providers";
+import {
+  getUpstreamGovernor,
+  type UpstreamGovernor,
+} from "../rate-limit/governor";
+import { ExportQuerySchema } from "../schemas/export";
+import {
+  BatchRequestSchema,
+  IsochronesRequestSchema,
+  ProfileSchema,
+  type IsochronesRequest,
+  type IsochronesResponse,
+  type Profile,
+} from "../schemas/isochrones";
+import {
+  DEFAULT_SNAP_METERS,
+  snapCoordinate,
+  translateIsochrones,
+} from "../snap";
+import { validator } from "../validator";
 
-// Simple in-memory cache
-const cache = new Map<string, { data: unknown; timestamp: number }>();
-const CACHE_TTL = 60 * 60 * 1000; // 1 hour in ms
+type Env = Record<string, string | undefined>;
+
+const BATCH_DEFAULT_CONCURRENCY = 4;
+
+const getBatchConcurrency = (vars: Env) =>
+  readNumberVar(vars, "BATCH_CONCURRENCY", BATCH_DEFAULT_CONCURRENCY, {
+    min: 1,
+    integer: true,
+  });
+
+interface PreparedRequest {
+  provider: IsochroneProvider;
+  governor: UpstreamGovernor;
+  profile: Profile;
+  request: IsochronesRequest;
+  cacheKey: string;
+}
 
 const getCacheKey = (
+  provider: string,
   transport: string,
   locations: number[][],
-  range: number[]
+  range: number[],
+  rangeType: string
 ) => {
-  return `${transport}:${JSON.stringify(locations)}:${JSON.stringify(range)}`;
+  return `${provider}:${transport}:${rangeType}:${JSON.stringify(locations)}:${JSON.stringify(range)}`;
 };
 
-const getFromCache = (key: string) => {
-  const cached = cache.get(key);
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-    return cached.data;
+// Nearby requests share one upstream call on the snapped grid; the result
+// is later moved back onto the exact locations that were asked for
+const prepareRequest = (
+  vars: Env,
+  profile: Profile,
+  request: IsochronesRequest
+): PreparedRequest => {
+  const provider = getIsochroneProvider(vars, request.provider);
+  if (!provider) {
+    throw new ProviderConfigError(
+      `Provider "${request.provider}" is not configured`
+    );
   }
-  cache.delete(key);
-  return null;
-};
 
-const setCache = (key: string, data: unknown) => {
-  cache.set(key, { data, timestamp: Date.now() });
+  const snapMeters = readNumberVar(
+    vars,
+    "CACHE_SNAP_METERS",
+    DEFAULT_SNAP_METERS
+  );
+  const locations = request.locations.map((location) =>
+    snapCoordinate(location, snapMeters)
+  ) as IsochronesRequest["locations"];
+
+  return {
+    provider,
+    governor: getUpstreamGovernor(vars, provider.name),
+    profile,
+    request: { ...request, locations },
+    cacheKey: getCacheKey(
+      provider.name,
+      profile,
+      locations,
+      request.range,
+      request.range_type
+    ),
+  };
 };
 
-const CoordinateSchema = z.tuple([z.number(), z.number()]);
-
-const IsochronesRequestSchema = z.object({
-  locations: z.array(CoordinateSchema).nonempty(),
-  range: z.array(z.number().positive()).nonempty(),
-  id: z.string().optional(),
-});
-
-const GeometrySchema = z.object({
-  type: z.literal("Polygon"),
-  coordinates: z.array(z.array(CoordinateSchema)),
-});
-
-const FeaturePropertiesSchema = z.object({
-  group_index: z.number(),
-  value: z.number(),
-  center: CoordinateSchema,
-});
-
-const FeatureSchema = z.object({
-  type: z.literal("Feature"),
-  geometry: GeometrySchema,
-  properties: FeaturePropertiesSchema,
-});
-
-const EngineSchema = z.object({
-  version: z.string(),
-  build_date: z.string(),
-  graph_date: z.string(),
-  osm_date: z.string(),
-});
-
-const QueryMetadataSchema = z.object({
-  id: z.string().optional(),
-  locations: z.array(CoordinateSchema),
-  range: z.array(z.number()),
-  transport: z.enum(["driving-car", "cycling-regular", "foot-walking"]),
-});
-
-const MetadataSchema = z.object({
-  id: z.string().optional(),
-  attribution: z.string(),
-  service: z.string(),
-  timestamp: z.number(),
-  query: QueryMetadataSchema,
-  engine: EngineSchema,
-});
-
-const IsochronesResponseSchema = z.object({
-  type: z.literal("FeatureCollection"),
-  bbox: z.array(z.number()),
-  features: z.array(FeatureSchema),
-  metadata: MetadataSchema,
-});
-
-const generateMockIsochrones = (
-  locations: number[][],
-  range: number[],
-  id?: string,
-  transport?: "driving-car" | "cycling-regular" | "foot-walking"
-): z.infer<typeof IsochronesResponseSchema> => {
-  const features: z.infer<typeof FeatureSchema>[] = [];
-
-  locations.forEach((location, locIndex) => {
-    range.forEach((rangeValue) => {
-      // Generate 12-sided circle (dodecagon) with noise
-      const radiusDegrees = rangeValue / 1000 / 50; // Rough conversion: 1 degree ≈ 111km
-      const points: [number, number][] = [];
-      const numPoints = 12;
-      const noiseScale = 0.15; // 15% variation in radius
-
-      for (let i = 0; i < numPoints; i++) {
-        const angle = (i / numPoints) * Math.PI * 2;
-        // Add noise to radius
-        const noise = (Math.random() - 0.5) * 2 * noiseScale; // Random between -noiseScale and +noiseScale
-        const noisyRadius = radiusDegrees * (1 + noise);
-        const x =
-          location[0] +
-          (noisyRadius * Math.cos(angle)) /
-            Math.cos((location[1] * Math.PI) / 180);
-        const y = location[1] + noisyRadius * Math.sin(angle);
-        points.push([x, y]);
-      }
+const loadIsochrones = async ({
+  provider,
+  governor,
+  profile,
+  request,
+  cacheKey,
+}: PreparedRequest): Promise<IsochronesResponse> => {
+  const cache = getCacheStore();
+  const cached = await cache.get<IsochronesResponse>(cacheKey);
+  if (cached) {
+    return cached;
+  }
 
-      // Close the polygon
-      points.push(points[0]);
-
-      features.push({
-        type: "Feature",
-        geometry: {
-          type: "Polygon",
-          coordinates: [points],
-        },
-        properties: {
-          group_index: locIndex,
-          value: rangeValue,
-          center: location as [number, number],
-        },
-      });
-    });
-  });
+  await governor.acquire();
+  const result = await provider.getIsochrones(profile, request);
+  await cache.set(cacheKey, result);
+  return result;
+};
 
-  return {
-    type: "FeatureCollection",
-    bbox: [-180, -90, 180, 90],
-    features,
-    metadata: {
-      id,
-      attribution: "openrouteservice.org | OpenStreetMap contributors",
-      service: "isochrones",
-      timestamp: Date.now(),
-      query: {
+// Cached results may have been computed for another marker, so restamp the id
+const toRequested = (
+  response: IsochronesResponse,
+  { id, locations }: IsochronesRequest
+) =>
+  translateIsochrones(
+    {
+      ...response,
+      metadata: {
+        ...response.metadata,
         id,
-        locations,
-        range,
-        transport,
-      },
-      engine: {
-        version: "9.5.0",
-        build_date: "2025-10-31T12:33:09Z",
-        graph_date: "2025-12-28T11:13:32Z",
-        osm_date: "2025-12-22T00:59:58Z",
+        query: { ...response.metadata.query, id },
       },
     },
-  };
-};
+    locations
+  );
 
 export const isochronesRoute = new Hono()
-  .post(
-    "/driving-car",
-    zValidator("json", IsochronesRequestSchema),
-    async (c) => {
-      try {
-        const request = c.req.valid("json");
-        const cacheKey = getCacheKey(
-          "driving-car",
-          request.locations,
-          request.range
-        );
-        const cached = getFromCache(cacheKey);
-        if (cached) {
-          return c.json(cached);
-        }
+  .post("/batch", validator("json", BatchRequestSchema), async (c) => {
+    const { items } = c.req.valid("json");
+    const vars = env<Env>(c);
 
-        // Mock response - 12-sided circles
-        const result = generateMockIsochrones(
-          request.locations,
-          request.range,
-          request.id,
-          "driving-car"
-        );
-        setCache(cacheKey, result);
-        c.header("Cache-Control", "public, max-age=3600");
-        return c.json(result);
+    const requests = items.map((item) => {
+      const request: IsochronesRequest = {
+        id: item.id,
+        locations: [item.location],
+        range: item.ranges,
+        range_type: item.range_type,
+        provider: item.provider,
+      };
+      try {
+        return {
+          request,
+          prepared: prepareRequest(vars, item.profile, request),
+        };
       } catch (error) {
-        return c.json({ error: (error as Error).message }, 500);
+        return { request, error };
       }
-    }
-  )
-  .post(
-    "/foot-walking",
-    zValidator("json", IsochronesRequestSchema),
-    async (c) => {
-      try {
-        const request = c.req.valid("json");
-        const cacheKey = getCacheKey(
-          "foot-walking",
-          request.locations,
-          request.range
-        );
-        const cached = getFromCache(cacheKey);
-        if (cached) {
-          return c.json(cached);
-        }
+    });
 
-        // Mock response - 12-sided circles
-        const result = generateMockIsochrones(
-          request.locations,
-          request.range,
-          request.id,
-          "foot-walking"
-        );
-        setCache(cacheKey, result);
-        c.header("Cache-Control", "public, max-age=3600");
-        return c.json(result);
-      } catch (error) {
-        return c.json({ error: (error as Error).message }, 500);
+    // Identical items (after snapping) share a single load
+    const unique = new Map<string, PreparedRequest>();
+    requests.forEach(({ prepared }) => {
+      if (prepared && !unique.has(prepared.cacheKey)) {
+        unique.set(prepared.cacheKey, prepared);
       }
+    });
+    const settled = await mapSettled(
+      [...unique.values()],
+      getBatchConcurrency(vars),
+      loadIsochrones
+    );
+    const loaded = new Map(
+      [...unique.keys()].map((key, index) => [key, settled[index]!])
+    );
+
+    const results = requests.map(({ request, prepared, error }) => {
+      const outcome = prepared ? loaded.get(prepared.cacheKey) : undefined;
+      if (outcome?.status === "fulfilled") {
+        return {
+          id: request.id!,
+          ok: true as const,
+          data: toRequested(outcome.value, request),
+        };
+      }
+      const reason = outcome?.status === "rejected" ? outcome.reason : error;
+      return {
+        id: request.id!,
+        ok: false as const,
+        error: toApiError(reason),
+        status: getErrorStatus(reason),
+      };
+    });
+
+    return c.json({ results });
+  })
+  .get("/export", validator("query", ExportQuerySchema), async (c) => {
+    const { config: items, format, provider } = c.req.valid("query");
+    // Hidden markers are left out, as they are on the map
+    const config = items.filter((item) => !item.hidden);
+    const vars = env<Env>(c);
+
+    try {
+      const settled = await mapSettled(
+        config,
+        getBatchConcurrency(vars),
+        async (item) => {
+          const request: IsochronesRequest = {
+            id: item.id,
+            locations: [item.location],
+            range: item.ranges,
+            range_type: item.rangeType,
+            provider,
+          };
+          const prepared = prepareRequest(vars, item.transport, request);
+          return toRequested(await loadIsochrones(prepared), request);
+        }
+      );
+      // A partial export would look complete in a GIS, so fail outright
+      const responses = settled.map((outcome) => {
+        if (outcome.status === "rejected") throw outcome.reason;
+        return outcome.value;
+      });
+
+      const file = encodeExport(
+        featureCollection([
+          ...config.map(markerFeature),
+          ...config.flatMap((item, index) =>
+            responses[index]!.features.map((feature) =>
+              isochroneFeature(item, feature)
+            )
+          ),
+          ...intersectionFeatures(
+            config.map((item, index) => ({
+              id: item.id,
+              features: responses[index]!.features,
+            }))
+          ),
+        ]),
+        format
+      );
+
+      c.header(
+        "Content-Disposition",
+        `attachment; filename="isochrones.${file.extension}"`
+      );
+      return c.body(file.body, 200, { "Content-Type": file.contentType });
+    } catch (error) {
+      return errorResponse(c, error);
     }
-  )
+  })
   .post(
-    "/cycling-regular",
-    zValidator("json", IsochronesRequestSchema),
+    "/:profile",
+    validator("param", z.object({ profile: ProfileSchema })),
+    validator("json", IsochronesRequestSchema),
     async (c) => {
-      try {
-        const request = c.req.valid("json");
-        const cacheKey = getCacheKey(
-          "cycling-regular",
-          request.locations,
-          request.range
-        );
-        const cached = getFromCache(cacheKey);
-        if (cached) {
-          return c.json(cached);
-        }
+      const { profile } = c.req.valid("param");
+      const request = c.req.valid("json");
 
-        // Mock response - 12-sided circles
-        const result = generateMockIsochrones(
-          request.locations,
-          request.range,
-          request.id,
-          "cycling-regular"
-        );
-        setCache(cacheKey, result);
+      try {
+        const prepared = prepareRequest(env(c), profile, request);
+        const result = await loadIsochrones(prepared);
         c.header("Cache-Control", "public, max-age=3600");
-        return c.json(result);
+        return c.json(toRequested(result, request));
       } catch (error) {
-        return c.json({ error: (error as Error).message }, 500);
+        return errorResponse(c, error);
       }
     }
   );
@@ -0,0 +1,7 @@
+import { Hono } from "hono";
+import { profiles } from "../profiles";
+
+export const profilesRoute = new Hono().get("/", (c) => {
+  c.header("Cache-Control", "public, max-age=3600");
+  return c.json(profiles);
+});
@@ -0,0 +1,20 @@
+import { Hono } from "hono";
+import { env } from "hono/adapter";
+import { getDefaultProviderName } from "../providers";
+import { getUpstreamGovernor } from "../rate-limit/governor";
+import { getClientQuota } from "../rate-limit/middleware";
+
+// Remaining budget for the calling client and for the default upstream engine
+export const quotaRoute = new Hono().get("/", (c) => {
+  const vars = env<Record<string, string | undefined>>(c);
+  const provider = getDefaultProviderName(vars);
+
+  c.header("Cache-Control", "no-store");
+  return c.json({
+    client: getClientQuota(c),
+    upstream: {
+      provider,
+      windows: getUpstreamGovernor(vars, provider).status(),
+    },
+  });
+});
@@ -0,0 +1,135 @@
+import { Hono, type Context } from "hono";
+import { AppError, errorResponse } from "../errors";
+import {
+  getScenarioStore,
+  type Scenario,
+  type ScenarioRecord,
+} from "../scenarios";
+import {
+  CreateScenarioSchema,
+  SCENARIO_ID_LENGTH,
+  ScenarioParamSchema,
+  UpdateScenarioSchema,
+} from "../schemas/scenarios";
+import { validator } from "../validator";
+
+const ID_ALPHABET =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+// Bytes from here up are dropped: 256 isn't a multiple of 62, so keeping
+// them would favour the first few characters
+const UNBIASED_BYTES = 256 - (256 % ID_ALPHABET.length);
+
+// 62^8 ids; a collision just means drawing again
+const generateId = () => {
+  let id = "";
+  while (id.length < SCENARIO_ID_LENGTH) {
+    for (const byte of crypto.getRandomValues(
+      new Uint8Array(SCENARIO_ID_LENGTH)
+    )) {
+      if (byte < UNBIASED_BYTES && id.length < SCENARIO_ID_LENGTH) {
+        id += ID_ALPHABET[byte % ID_ALPHABET.length];
+      }
+    }
+  }
+  return id;
+};
+
+const hashToken = async (token: string) => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token)
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+};
+
+const toScenario = ({ tokenHash: _, ...scenario }: ScenarioRecord): Scenario =>
+  scenario;
+
+const notFound = (id: string) =>
+  new AppError("not_found", `No scenario with id "${id}"`, { status: 404 });
+
+// Anyone with the link can load a scenario; changing it takes the token
+// handed out when it was created, as `Authorization: Bearer <token>`
+const requireOwner = async (c: Context, id: string) => {
+  const record = await getScenarioStore().get(id);
+  if (!record) throw notFound(id);
+
+  const token = c.req.header("Authorization")?.match(/^Bearer (.+)$/)?.[1];
+  if (!token || (await hashToken(token)) !== record.tokenHash) {
+    throw new AppError(
+      "unauthorized",
+      "Only the owner of this scenario can change it",
+      { status: 401 }
+    );
+  }
+  return record;
+};
+
+export const scenariosRoute = new Hono()
+  .post("/", validator("json", CreateScenarioSchema), async (c) => {
+    const { name, config } = c.req.valid("json");
+    const token = crypto.randomUUID();
+    const tokenHash = await hashToken(token);
+    const now = Date.now();
+
+    try {
+      let record: ScenarioRecord;
+      do {
+        record = {
+          id: generateId(),
+          name,
+          config,
+          tokenHash,
+          createdAt: now,
+          updatedAt: now,
+        };
+      } while (!(await getScenarioStore().insert(record)));
+
+      return c.json({ ...toScenario(record), token }, 201);
+    } catch (error) {
+      return errorResponse(c, error);
+    }
+  })
+  .get("/:id", validator("param", ScenarioParamSchema), async (c) => {
+    const { id } = c.req.valid("param");
+
+    try {
+      const record = await getScenarioStore().get(id);
+      if (!record) throw notFound(id);
+      return c.json(toScenario(record));
+    } catch (error) {
+      return errorResponse(c, error);
+    }
+  })
+  .patch(
+    "/:id",
+    validator("param", ScenarioParamSchema),
+    validator("json", UpdateScenarioSchema),
+    async (c) => {
+      const { id } = c.req.valid("param");
+      const changes = c.req.valid("json");
+
+      try {
+        await requireOwner(c, id);
+        const record = await getScenarioStore().update(id, changes, Date.now());
+        if (!record) throw notFound(id);
+        return c.json(toScenario(record));
+      } catch (error) {
+        return errorResponse(c, error);
+      }
+    }
+  )
+  .delete("/:id", validator("param", ScenarioParamSchema), async (c) => {
+    const { id } = c.req.valid("param");
+
+    try {
+      await requireOwner(c, id);
+      await getScenarioStore().delete(id);
+      return c.body(null, 204);
+    } catch (error) {
+      return errorResponse(c, error);
+    }
+  });
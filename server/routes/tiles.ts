@@ -0,0 +1,37 @@
+import { Hono } from "hono";
+import { getTileSource, TILE_CONTENT_TYPES } from "../basemaps";
+import { AppError, errorResponse } from "../errors";
+import { TileParamSchema } from "../schemas/basemaps";
+import { validator } from "../validator";
+
+// Tiles of the basemaps kept in archives on this server
+export const tilesRoute = new Hono().get(
+  "/:id/:z/:x/:y",
+  validator("param", TileParamSchema),
+  async (c) => {
+    const { id, z, x, y } = c.req.valid("param");
+
+    try {
+      const source = getTileSource(id);
+      if (!source) {
+        throw new AppError("not_found", `No tile archive for basemap "${id}"`, {
+          status: 404,
+        });
+      }
+
+      const tile = await source.getTile(z, x, y);
+      if (!tile) {
+        throw new AppError("not_found", `No tile at ${z}/${x}/${y}`, {
+          status: 404,
+        });
+      }
+
+      c.header("Cache-Control", "public, max-age=86400");
+      return c.body(tile, 200, {
+        "Content-Type": TILE_CONTENT_TYPES[source.format],
+      });
+    } catch (error) {
+      return errorResponse(c, error);
+    }
+  }
+);
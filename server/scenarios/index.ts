@@ -0,0 +1,19 @@
+import { createMemoryScenarioStore } from "./memory";
+import type { ScenarioStore } from "./types";
+
+export { createMemoryScenarioStore } from "./memory";
+export type {
+  Scenario,
+  ScenarioChanges,
+  ScenarioRecord,
+  ScenarioStore,
+} from "./types";
+
+// The server entrypoint swaps in SQLite at startup
+let store: ScenarioStore = createMemoryScenarioStore();
+
+export const getScenarioStore = () => store;
+
+export const setScenarioStore = (next: ScenarioStore) => {
+  store = next;
+};
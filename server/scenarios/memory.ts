@@ -0,0 +1,23 @@
+import type { ScenarioRecord, ScenarioStore } from "./types";
+
+// Lost on restart; the server entrypoint swaps in SQLite
+export const createMemoryScenarioStore = (): ScenarioStore => {
+  const records = new Map<string, ScenarioRecord>();
+
+  return {
+    get: async (id) => records.get(id) ?? null,
+    insert: async (record) => {
+      if (records.has(record.id)) return false;
+      records.set(record.id, record);
+      return true;
+    },
+    update: async (id, changes, updatedAt) => {
+      const record = records.get(id);
+      if (!record) return null;
+      const updated = { ...record, ...changes, updatedAt };
+      records.set(id, updated);
+      return updated;
+    },
+    delete: async (id) => records.delete(id),
+  };
+};
@@ -0,0 +1,91 @@
+import { Database } from "bun:sqlite";
+import type { ScenarioRecord, ScenarioStore } from "./types";
+
+export const DEFAULT_SCENARIOS_SQLITE_PATH = "scenarios.sqlite";
+
+interface ScenarioRow {
+  id: string;
+  name: string;
+  config: string;
+  token_hash: string;
+  created_at: number;
+  updated_at: number;
+}
+
+const toRecord = (row: ScenarioRow): ScenarioRecord => ({
+  id: row.id,
+  name: row.name,
+  config: row.config,
+  tokenHash: row.token_hash,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+// Only imported from the Bun entrypoint since `bun:sqlite` doesn't exist
+// elsewhere
+export const createSqliteScenarioStore = ({
+  path = DEFAULT_SCENARIOS_SQLITE_PATH,
+}: { path?: string } = {}): ScenarioStore => {
+  const db = new Database(path, { create: true });
+  db.run("PRAGMA journal_mode = WAL");
+  db.run(`
+    CREATE TABLE IF NOT EXISTS scenarios (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      config TEXT NOT NULL,
+      token_hash TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+  const selectScenario = db.query<ScenarioRow, [string]>(
+    "SELECT * FROM scenarios WHERE id = ?"
+  );
+  const insertScenario = db.query<
+    unknown,
+    [string, string, string, string, number, number]
+  >(
+    `INSERT OR IGNORE INTO scenarios
+       (id, name, config, token_hash, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  );
+  const updateScenario = db.query<
+    ScenarioRow,
+    [string | null, string | null, number, string]
+  >(
+    `UPDATE scenarios
+     SET name = COALESCE(?, name), config = COALESCE(?, config), updated_at = ?
+     WHERE id = ?
+     RETURNING *`
+  );
+  const deleteScenario = db.query<unknown, [string]>(
+    "DELETE FROM scenarios WHERE id = ?"
+  );
+
+  return {
+    get: async (id) => {
+      const row = selectScenario.get(id);
+      return row ? toRecord(row) : null;
+    },
+    insert: async (record) =>
+      insertScenario.run(
+        record.id,
+        record.name,
+        record.config,
+        record.tokenHash,
+        record.createdAt,
+        record.updatedAt
+      ).changes > 0,
+    update: async (id, { name, config }, updatedAt) => {
+      const row = updateScenario.get(
+        name ?? null,
+        config ?? null,
+        updatedAt,
+        id
+      );
+      return row ? toRecord(row) : null;
+    },
+    delete: async (id) => deleteScenario.run(id).changes > 0,
+  };
+};
@@ -0,0 +1,27 @@
+export interface Scenario {
+  id: string;
+  name: string;
+  // The map's encoded `config` search param, stored as written
+  config: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Only a hash of the owner's token is kept
+export interface ScenarioRecord extends Scenario {
+  tokenHash: string;
+}
+
+export type ScenarioChanges = Partial<Pick<Scenario, "name" | "config">>;
+
+export interface ScenarioStore {
+  get: (id: string) => Promise<ScenarioRecord | null>;
+  // Resolves to false when the id is already taken
+  insert: (record: ScenarioRecord) => Promise<boolean>;
+  update: (
+    id: string,
+    changes: ScenarioChanges,
+    updatedAt: number
+  ) => Promise<ScenarioRecord | null>;
+  delete: (id: string) => Promise<boolean>;
+}
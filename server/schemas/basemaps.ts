@@ -0,0 +1,99 @@
+import { z } from "zod";
+
+export const TILE_ARCHIVE_EXTENSIONS = [".mbtiles", ".pmtiles"] as const;
+
+const BasemapIdSchema = z
+  .string()
+  .regex(/^[a-z0-9-]+$/, "Use lowercase letters, digits and dashes");
+
+const BasemapBaseSchema = z.object({
+  id: BasemapIdSchema,
+  label: z.string().trim().min(1).max(60),
+  attribution: z.string().default(""),
+  maxZoom: z.number().int().min(0).max(24).default(19),
+});
+
+// Tiles from elsewhere, as a Leaflet URL template
+const RemoteBasemapSchema = BasemapBaseSchema.extend({
+  url: z.string().min(1),
+  subdomains: z.string().optional(),
+});
+
+// Raster tiles from an archive on this server, relative to the config file
+const LocalBasemapSchema = BasemapBaseSchema.extend({
+  file: z
+    .string()
+    .refine(
+      (file) =>
+        TILE_ARCHIVE_EXTENSIONS.some((extension) => file.endsWith(extension)),
+      `Expected a ${TILE_ARCHIVE_EXTENSIONS.join(" or ")} file`
+    ),
+});
+
+// The basemaps config file. `default` and `dark` name the basemaps shown in
+// light and dark mode until one is picked; both fall back to the first.
+export const BasemapConfigSchema = z
+  .object({
+    default: BasemapIdSchema.optional(),
+    dark: BasemapIdSchema.optional(),
+    basemaps: z
+      .array(z.union([RemoteBasemapSchema, LocalBasemapSchema]))
+      .nonempty(),
+  })
+  .superRefine((config, ctx) => {
+    const ids = config.basemaps.map((basemap) => basemap.id);
+    const labels = config.basemaps.map((basemap) => basemap.label);
+    ids.forEach((id, index) => {
+      if (ids.indexOf(id) !== index) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Duplicate basemap id "${id}"`,
+          path: ["basemaps", index, "id"],
+        });
+      }
+      // The layer switcher tells basemaps apart by label
+      if (labels.indexOf(labels[index]!) !== index) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Duplicate basemap label "${labels[index]}"`,
+          path: ["basemaps", index, "label"],
+        });
+      }
+    });
+    (["default", "dark"] as const).forEach((key) => {
+      const id = config[key];
+      if (id && !ids.includes(id)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `No basemap with id "${id}"`,
+          path: [key],
+        });
+      }
+    });
+  });
+
+export const TileParamSchema = z.object({
+  id: BasemapIdSchema,
+  z: z.coerce.number().int().min(0).max(30),
+  x: z.coerce.number().int().min(0),
+  y: z.coerce.number().int().min(0),
+});
+
+export type BasemapConfig = z.infer<typeof BasemapConfigSchema>;
+export type BasemapConfigItem = BasemapConfig["basemaps"][number];
+
+// What the client gets: every basemap as a URL template
+export interface Basemap {
+  id: string;
+  label: string;
+  url: string;
+  attribution: string;
+  maxZoom: number;
+  subdomains?: string;
+}
+
+export interface BasemapList {
+  basemaps: Basemap[];
+  default: string;
+  dark: string;
+}
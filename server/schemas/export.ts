@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { ConfigDecodeError, decodeConfig } from "../config-codec";
+import { ExportFormatSchema } from "../export/types";
+import {
+  BATCH_MAX_ITEMS,
+  CoordinateSchema,
+  ProfileSchema,
+  ProviderNameSchema,
+  RangeTypeSchema,
+} from "./isochrones";
+
+export const ExportConfigItemSchema = z.object({
+  id: z.string(),
+  location: CoordinateSchema,
+  transport: ProfileSchema,
+  ranges: z.array(z.number().positive()).nonempty(),
+  rangeType: RangeTypeSchema.default("time"),
+  name: z.string().optional(),
+  notes: z.string().optional(),
+  color: z.string().optional(),
+  hidden: z.boolean().optional(),
+});
+
+// The map's own `config` search param, in any version the client has written
+export const ExportConfigSchema = z
+  .string()
+  .transform((value, ctx) => {
+    try {
+      return decodeConfig(value);
+    } catch (error) {
+      ctx.addIssue({
+        code: "custom",
+        message:
+          error instanceof ConfigDecodeError
+            ? error.message
+            : "Expected an encoded config",
+      });
+      return z.NEVER;
+    }
+  })
+  .pipe(z.array(ExportConfigItemSchema).nonempty().max(BATCH_MAX_ITEMS));
+
+export const ExportQuerySchema = z.object({
+  config: ExportConfigSchema,
+  format: ExportFormatSchema.default("geojson"),
+  provider: ProviderNameSchema.optional(),
+});
+
+export type ExportConfigItem = z.infer<typeof ExportConfigItemSchema>;
@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { CoordinateSchema } from "./isochrones";
+
+export const GeocoderNameSchema = z.enum(["ors", "nominatim", "mock"]);
+
+export const GEOCODE_MAX_RESULTS = 10;
+
+export const GeocodeQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(GEOCODE_MAX_RESULTS).default(5),
+});
+
+export const ReverseGeocodeQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lon: z.coerce.number().min(-180).max(180),
+});
+
+// [west, south, east, north], as in GeoJSON
+export const BoundingBoxSchema = z.tuple([
+  z.number(),
+  z.number(),
+  z.number(),
+  z.number(),
+]);
+
+export const GeocodeResultSchema = z.object({
+  label: z.string(),
+  location: CoordinateSchema,
+  bbox: BoundingBoxSchema.optional(),
+});
+
+export type GeocoderName = z.infer<typeof GeocoderNameSchema>;
+export type GeocodeQuery = z.infer<typeof GeocodeQuerySchema>;
+export type ReverseGeocodeQuery = z.infer<typeof ReverseGeocodeQuerySchema>;
+export type BoundingBox = z.infer<typeof BoundingBoxSchema>;
+export type GeocodeResult = z.infer<typeof GeocodeResultSchema>;
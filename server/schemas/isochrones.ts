@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { ProfileSchema } from "../profiles";
+
+export { ProfileSchema, type Profile } from "../profiles";
+
+export const CoordinateSchema = z.tuple([z.number(), z.number()]);
+
+// Time ranges are in seconds, distance ranges in metres
+export const RangeTypeSchema = z.enum(["time", "distance"]);
+
+export const ProviderNameSchema = z.enum(["ors", "valhalla", "mock"]);
+
+export const IsochronesRequestSchema = z.object({
+  locations: z.array(CoordinateSchema).nonempty(),
+  range: z.array(z.number().positive()).nonempty(),
+  range_type: RangeTypeSchema.default("time"),
+  id: z.string().optional(),
+  provider: ProviderNameSchema.optional(),
+});
+
+export const BATCH_MAX_ITEMS = 50;
+
+export const BatchItemSchema = z.object({
+  id: z.string(),
+  location: CoordinateSchema,
+  profile: ProfileSchema,
+  ranges: z.array(z.number().positive()).nonempty(),
+  range_type: RangeTypeSchema.default("time"),
+  provider: ProviderNameSchema.optional(),
+});
+
+export const BatchRequestSchema = z.object({
+  items: z.array(BatchItemSchema).nonempty().max(BATCH_MAX_ITEMS),
+});
+
+export const GeometrySchema = z.object({
+  type: z.literal("Polygon"),
+  coordinates: z.array(z.array(CoordinateSchema)),
+});
+
+export const FeaturePropertiesSchema = z.object({
+  group_index: z.number(),
+  value: z.number(),
+  center: CoordinateSchema,
+});
+
+export const FeatureSchema = z.object({
+  type: z.literal("Feature"),
+  geometry: GeometrySchema,
+  properties: FeaturePropertiesSchema,
+});
+
+export const EngineSchema = z.object({
+  name: ProviderNameSchema,
+  version: z.string().optional(),
+  build_date: z.string().optional(),
+  graph_date: z.string().optional(),
+  osm_date: z.string().optional(),
+});
+
+export const QueryMetadataSchema = z.object({
+  id: z.string().optional(),
+  locations: z.array(CoordinateSchema),
+  range: z.array(z.number()),
+  range_type: RangeTypeSchema.default("time"),
+  transport: ProfileSchema,
+});
+
+export const MetadataSchema = z.object({
+  id: z.string().optional(),
+  attribution: z.string(),
+  service: z.string(),
+  timestamp: z.number(),
+  query: QueryMetadataSchema,
+  engine: EngineSchema,
+});
+
+export const IsochronesResponseSchema = z.object({
+  type: z.literal("FeatureCollection"),
+  bbox: z.array(z.number()),
+  features: z.array(FeatureSchema),
+  metadata: MetadataSchema,
+});
+
+export type Coordinate = z.infer<typeof CoordinateSchema>;
+export type RangeType = z.infer<typeof RangeTypeSchema>;
+export type ProviderName = z.infer<typeof ProviderNameSchema>;
+export type IsochronesRequest = z.infer<typeof IsochronesRequestSchema>;
+export type BatchItem = z.infer<typeof BatchItemSchema>;
+export type Geometry = z.infer<typeof GeometrySchema>;
+export type Feature = z.infer<typeof FeatureSchema>;
+export type IsochronesResponse = z.infer<typeof IsochronesResponseSchema>;
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { encodeConfig, type ConfigCodecItem } from "../config-codec";
+import { BATCH_MAX_ITEMS } from "./isochrones";
+import { SCENARIO_MAX_MARKERS, ScenarioConfigSchema } from "./scenarios";
+
+const marker = (index: number): ConfigCodecItem => ({
+  id: `m${index}`,
+  location: [8.68, 49.41],
+  transport: "driving-car",
+  ranges: [300],
+  rangeType: "time",
+  units: "km",
+});
+
+const markers = (count: number) =>
+  Array.from({ length: count }, (_, index) => marker(index));
+
+describe("ScenarioConfigSchema", () => {
+  test("keeps the config as the client encoded it", () => {
+    const config = encodeConfig(markers(2));
+
+    expect(ScenarioConfigSchema.parse(config)).toBe(config);
+  });
+
+  test("accepts an empty map", () => {
+    expect(ScenarioConfigSchema.safeParse(encodeConfig([])).success).toBe(true);
+  });
+
+  test("isn't held to the export batch limit", () => {
+    expect(
+      ScenarioConfigSchema.safeParse(encodeConfig(markers(BATCH_MAX_ITEMS + 1)))
+        .success
+    ).toBe(true);
+  });
+
+  test("rejects more than SCENARIO_MAX_MARKERS markers", () => {
+    const result = ScenarioConfigSchema.safeParse(
+      encodeConfig(markers(SCENARIO_MAX_MARKERS + 1))
+    );
+
+    expect(result.success).toBe(false);
+  });
+
+  test("reports configs that don't decode", () => {
+    const result = ScenarioConfigSchema.safeParse("2.e30x");
+
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+      "The config is not valid encoded JSON",
+    ]);
+  });
+
+  test("reports invalid markers with their path", () => {
+    const result = ScenarioConfigSchema.safeParse(
+      encodeConfig([{ ...marker(0), ranges: [] }])
+    );
+
+    expect(result.error?.issues[0]?.path).toEqual([0, "ranges"]);
+  });
+});
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { ConfigDecodeError, decodeConfig } from "../config-codec";
+import { ExportConfigItemSchema } from "./export";
+
+export const SCENARIO_ID_LENGTH = 8;
+export const SCENARIO_NAME_MAX_LENGTH = 100;
+export const SCENARIO_CONFIG_MAX_LENGTH = 32_000;
+// Saving a map fetches no isochrones, so a scenario isn't held to the batch
+// limit; this only keeps a single record to a sensible size
+export const SCENARIO_MAX_MARKERS = 500;
+
+export const ScenarioNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(SCENARIO_NAME_MAX_LENGTH);
+
+const ScenarioItemsSchema = z
+  .array(ExportConfigItemSchema)
+  .max(SCENARIO_MAX_MARKERS);
+
+// Stored as the client wrote it, once it's known to decode. An empty map is
+// a scenario too.
+export const ScenarioConfigSchema = z
+  .string()
+  .max(SCENARIO_CONFIG_MAX_LENGTH)
+  .superRefine((value, ctx) => {
+    let items: unknown[];
+    try {
+      items = decodeConfig(value);
+    } catch (error) {
+      ctx.addIssue({
+        code: "custom",
+        message:
+          error instanceof ConfigDecodeError
+            ? error.message
+            : "Expected an encoded config",
+      });
+      return;
+    }
+
+    const result = ScenarioItemsSchema.safeParse(items);
+    result.error?.issues.forEach((issue) =>
+      ctx.addIssue({ code: "custom", message: issue.message, path: issue.path })
+    );
+  });
+
+export const ScenarioParamSchema = z.object({
+  id: z.string().regex(new RegExp(`^[0-9A-Za-z]{${SCENARIO_ID_LENGTH}}$`)),
+});
+
+export const CreateScenarioSchema = z.object({
+  name: ScenarioNameSchema,
+  config: ScenarioConfigSchema,
+});
+
+export const UpdateScenarioSchema = z
+  .object({
+    name: ScenarioNameSchema.optional(),
+    config: ScenarioConfigSchema.optional(),
+  })
+  .refine((value) => value.name !== undefined || value.config !== undefined, {
+    message: "Nothing to update",
+  });
+
+export type CreateScenarioRequest = z.infer<typeof CreateScenarioSchema>;
+export type UpdateScenarioRequest = z.infer<typeof UpdateScenarioSchema>;
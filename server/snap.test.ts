@@ -0,0 +1,128 @@
+import { describe, expect, test } from "bun:test";
+import type { Coordinate, IsochronesResponse } from "./schemas/isochrones";
+import { snapCoordinate, translateIsochrones } from "./snap";
+
+// A unit square around `center`, as the provider computed it
+const feature = (center: Coordinate, group_index: number) => ({
+  type: "Feature" as const,
+  geometry: {
+    type: "Polygon" as const,
+    coordinates: [
+      [
+        [center[0] - 0.5, center[1] - 0.5],
+        [center[0] + 0.5, center[1] - 0.5],
+        [center[0] + 0.5, center[1] + 0.5],
+        [center[0] - 0.5, center[1] - 0.5],
+      ] as Coordinate[],
+    ],
+  },
+  properties: { group_index, value: 300, center },
+});
+
+const response = (locations: Coordinate[]): IsochronesResponse => ({
+  type: "FeatureCollection",
+  bbox: [0, 0, 0, 0],
+  features: locations.map((location, index) => feature(location, index)),
+  metadata: {
+    attribution: "test",
+    service: "isochrones",
+    timestamp: 0,
+    query: {
+      locations,
+      range: [300],
+      range_type: "time",
+      transport: "driving-car",
+    },
+    engine: { name: "ors" },
+  },
+});
+
+describe("snapCoordinate", () => {
+  test("puts nearby points in the same cell", () => {
+    const a = snapCoordinate([8.68149, 49.41461]);
+    const b = snapCoordinate([8.68151, 49.41463]);
+
+    expect(a).toEqual(b);
+    // Within about half a cell of where they were
+    expect(Math.abs(a[0] - 8.6815)).toBeLessThan(0.0005);
+    expect(Math.abs(a[1] - 49.4146)).toBeLessThan(0.0005);
+  });
+
+  test("keeps points a few cells apart in different cells", () => {
+    expect(snapCoordinate([8.68, 49.41])).not.toEqual(
+      snapCoordinate([8.68, 49.412])
+    );
+  });
+
+  test("wraps longitudes past the antimeridian", () => {
+    const [lon] = snapCoordinate([179.9999, 0]);
+
+    expect(lon).toBeGreaterThanOrEqual(-180);
+    expect(lon).toBeLessThan(180);
+    expect(snapCoordinate([179.9999, 0])).toEqual(
+      snapCoordinate([-179.9999, 0])
+    );
+  });
+
+  test.each([
+    [[179.9999, 89.9999], 90],
+    [[-179.9999, -89.9999], -90],
+  ] as [Coordinate, number][])(
+    "clamps %p to the pole and a valid longitude",
+    (coordinate, pole) => {
+      const [lon, lat] = snapCoordinate(coordinate);
+
+      expect(lat).toBe(pole);
+      expect(lon).toBeGreaterThanOrEqual(-180);
+      expect(lon).toBeLessThanOrEqual(180);
+    }
+  );
+
+  test("leaves coordinates alone when snapping is off", () => {
+    expect(snapCoordinate([8.6814951234, 49.4146109876], 0)).toEqual([
+      8.6814951234, 49.4146109876,
+    ]);
+  });
+});
+
+describe("translateIsochrones", () => {
+  test("returns the response untouched when nothing moved", () => {
+    const original = response([[8.68, 49.41]]);
+
+    expect(translateIsochrones(original, [[8.68, 49.41]])).toBe(original);
+  });
+
+  test("moves each group by its own location's offset", () => {
+    const translated = translateIsochrones(
+      response([
+        [8, 49],
+        [10, 50],
+      ]),
+      [
+        [8.5, 49.25],
+        [9, 51],
+      ]
+    );
+
+    const [first, second] = translated.features;
+    expect(first?.properties.center).toEqual([8.5, 49.25]);
+    expect(first?.geometry.coordinates[0]?.[0]).toEqual([8, 48.75]);
+    expect(second?.properties.center).toEqual([9, 51]);
+    expect(second?.geometry.coordinates[0]?.[0]).toEqual([8.5, 50.5]);
+    expect(translated.metadata.query.locations).toEqual([
+      [8.5, 49.25],
+      [9, 51],
+    ]);
+  });
+
+  test("takes the short way round across the antimeridian", () => {
+    const requested: Coordinate = [179.9999, 0];
+    const computed = snapCoordinate(requested);
+
+    const [moved] = translateIsochrones(response([computed]), [
+      requested,
+    ]).features;
+
+    expect(moved?.properties.center[0]).toBeCloseTo(179.9999 - 360);
+  });
+});
@@ -0,0 +1,78 @@
+import type { Coordinate, IsochronesResponse } from "./schemas/isochrones";
+
+// Shared by the server cache and the client query keys so that requests a
+// few metres apart resolve to the same entry
+export const DEFAULT_SNAP_METERS = 50;
+
+const METERS_PER_DEGREE = 111_320;
+
+// Into [-180, 180), so a cell straddling the antimeridian stays on the map
+const wrapLongitude = (lon: number) =>
+  ((((lon + 180) % 360) + 360) % 360) - 180;
+
+// Snaps [lon, lat] to a grid of roughly `meters` cells; 0 disables snapping
+export const snapCoordinate = (
+  [lon, lat]: Coordinate,
+  meters = DEFAULT_SNAP_METERS
+): Coordinate => {
+  if (meters <= 0) return [lon, lat];
+  const latStep = meters / METERS_PER_DEGREE;
+  const snappedLat = Math.min(
+    Math.max(Math.round(lat / latStep) * latStep, -90),
+    90
+  );
+  const lonStep =
+    meters /
+    (METERS_PER_DEGREE *
+      Math.max(Math.cos((snappedLat * Math.PI) / 180), 0.01));
+  const snappedLon = wrapLongitude(Math.round(lon / lonStep) * lonStep);
+  // Trim floating point noise so snapped values make stable keys
+  return [Number(snappedLon.toFixed(6)), Number(snappedLat.toFixed(6))];
+};
+
+const shift = (
+  [lon, lat]: Coordinate,
+  [dLon, dLat]: Coordinate
+): Coordinate => [lon + dLon, lat + dLat];
+
+// Moves every feature by the offset between the location it was computed for
+// (metadata.query.locations) and the location that was actually asked for
+export const translateIsochrones = (
+  response: IsochronesResponse,
+  locations: Coordinate[]
+): IsochronesResponse => {
+  const offsets = response.metadata.query.locations.map(
+    (from, index): Coordinate => {
+      const to = locations[index] ?? from;
+      // The short way round when the two sit either side of the antimeridian
+      return [wrapLongitude(to[0] - from[0]), to[1] - from[1]];
+    }
+  );
+  if (offsets.every(([dLon, dLat]) => dLon === 0 && dLat === 0)) {
+    return response;
+  }
+
+  return {
+    ...response,
+    features: response.features.map((feature) => {
+      const offset = offsets[feature.properties.group_index] ?? [0, 0];
+      return {
+        ...feature,
+        geometry: {
+          ...feature.geometry,
+          coordinates: feature.geometry.coordinates.map((ring) =>
+            ring.map((coordinate) => shift(coordinate, offset))
+          ),
+        },
+        properties: {
+          ...feature.properties,
+          center: shift(feature.properties.center, offset),
+        },
+      };
+    }),
+    metadata: {
+      ...response.metadata,
+      query: { ...response.metadata.query, locations },
+    },
+  };
+};
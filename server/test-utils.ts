@@ -0,0 +1,36 @@
+import { afterAll, beforeAll } from "bun:test";
+
+type Reply = (request: Request) => Response | Promise<Response>;
+
+// A stand-in for an upstream service for the tests in one file: each test
+// sets the reply it needs. The server starts before the first test and stops
+// after the last.
+export const useStubServer = () => {
+  let server: ReturnType<typeof Bun.serve> | undefined;
+  const stub = {
+    reply: (() => new Response("No reply set", { status: 500 })) as Reply,
+    get url() {
+      if (!server) throw new Error("The stub server isn't running");
+      return server.url.href;
+    },
+  };
+
+  beforeAll(() => {
+    server = Bun.serve({ port: 0, fetch: (request) => stub.reply(request) });
+  });
+
+  afterAll(() => {
+    server?.stop(true);
+  });
+
+  return stub;
+};
+
+// The error a promise rejects with, failing the test if it resolves
+export const getError = (promise: Promise<unknown>) =>
+  promise.then(
+    () => {
+      throw new Error("Expected the request to fail");
+    },
+    (error: unknown) => error
+  );
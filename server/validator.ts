@@ -0,0 +1,27 @@
+import { zValidator } from "@hono/zod-validator";
+import type { ValidationTargets } from "hono";
+import type { ZodType } from "zod";
+import { AppError, errorResponse } from "./errors";
+
+// zValidator that answers with the error envelope instead of zod's raw output
+export const validator = <
+  Target extends keyof ValidationTargets,
+  Schema extends ZodType,
+>(
+  target: Target,
+  schema: Schema
+) =>
+  zValidator(target, schema, (result, c) => {
+    if (!result.success) {
+      return errorResponse(
+        c,
+        new AppError("validation_error", `Invalid request ${target}`, {
+          status: 400,
+          details: result.error.issues.map((issue) => ({
+            path: issue.path.map(String).join("."),
+            message: issue.message,
+          })),
+        })
+      );
+    }
+  });